@@ -0,0 +1,78 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PodcastEpisode } from './types';
+import { ToolRegistry } from './services/ToolRegistry';
+import App from './App';
+
+// Stands in for the learning view; records what App hands it
+const learning = vi.hoisted(() => ({
+  props: null as null | {
+    onEpisodeGenerated: (episode: PodcastEpisode) => void;
+    requestedEpisode: PodcastEpisode | null;
+    onEpisodeOpened: () => void;
+  },
+}));
+
+vi.mock('./components/learning/LearningMode', () => ({
+  LearningMode: (props: NonNullable<typeof learning.props>) => {
+    learning.props = props;
+    return <div data-testid="learning-mode">{props.requestedEpisode?.title}</div>;
+  },
+}));
+
+const EPISODE: PodcastEpisode = {
+  id: 'ep-1',
+  title: 'Photosynthesis Basics',
+  topic: 'Photosynthesis',
+  type: 'Standard',
+  style: 'Conversational',
+  sourceIds: [],
+  script: [],
+  createdAt: new Date(0),
+};
+
+// The declarations a Live session advertises are snapshotted from the registry on connect
+const advertisedToolNames = () =>
+  (ToolRegistry.getInstance().getTools() ?? []).flatMap(tool => tool.functionDeclarations ?? []).map(fn => fn.name);
+
+// Runs the boot splash through to the main interface
+const renderApp = async () => {
+  const app = render(<App />);
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(5000);
+  });
+  return app;
+};
+
+describe('App Live tools', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // jsdom has no 2D canvas; the visualizer skips drawing without one
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    learning.props = null;
+  });
+
+  it('offers open_learning_episode to a session on the Live tab and opens the episode in the Learn tab', async () => {
+    const app = await renderApp();
+    fireEvent.click(screen.getByText('Learn'));
+    act(() => learning.props!.onEpisodeGenerated(EPISODE));
+    fireEvent.click(screen.getByText('Live'));
+    expect(screen.queryByTestId('learning-mode')).toBeNull();
+
+    expect(advertisedToolNames()).toContain('open_learning_episode');
+
+    let responses: Awaited<ReturnType<ToolRegistry['dispatch']>> = [];
+    await act(async () => {
+      responses = await ToolRegistry.getInstance().dispatch([{ id: 'call-1', name: 'open_learning_episode', args: { title: 'photosynthesis' } }]);
+    });
+
+    expect(responses[0].response).toEqual({ output: { opened: true, title: 'Photosynthesis Basics' } });
+    expect(screen.getByTestId('learning-mode').textContent).toBe('Photosynthesis Basics');
+    app.unmount();
+  });
+});
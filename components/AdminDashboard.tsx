@@ -1,38 +1,104 @@
 
 import React, { useState, useEffect } from 'react';
 import { AdminConfig, MemoryLayer, TelemetryLevel } from '../types';
+import { LatencyMetrics, LatencySummary } from '../services/LatencyMetrics';
+import { useLatencyMetrics } from '../hooks/useLatencyMetrics';
+import { MaintenanceGate } from '../services/MaintenanceGate';
+import { AccessControl, Permission, PERMISSION_LABELS } from '../services/AccessControl';
+import { useAccessRole } from '../hooks/useAccessRole';
+import { RoleElevation } from './admin/RoleElevation';
+import { AccessControlPanel } from './admin/AccessControlPanel';
+import {
+    AdminAuditEntry, AdminAuditLog, AdminConfigUpdateMeta, diffAdminConfigs, formatAuditValue, isSensitiveChange
+} from '../services/AdminAuditLog';
 
 interface AdminDashboardProps {
     isOpen: boolean;
     onClose: () => void;
     config: AdminConfig;
-    onUpdateConfig: (newConfig: AdminConfig) => void;
+    onUpdateConfig: (newConfig: AdminConfig, meta?: AdminConfigUpdateMeta) => void;
     memory: MemoryLayer;
     onWipeMemory: () => void;
 }
 
-// Simulated Graph Data Helper
-const generateData = (length: number, min: number, max: number) => {
-    return Array.from({ length }, () => Math.floor(Math.random() * (max - min + 1) + min));
-};
+// Samples shown in each sparkline
+const SPARKLINE_SAMPLES = 20;
+
+const formatMs = (value: number | null) => value === null ? '--' : `${value} ms`;
 
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({ 
     isOpen, onClose, config, onUpdateConfig, memory, onWipeMemory 
 }) => {
-    const [activeTab, setActiveTab] = useState<'overview' | 'neural' | 'system' | 'logs'>('overview');
+    const [activeTab, setActiveTab] = useState<'overview' | 'neural' | 'system' | 'audit' | 'access' | 'logs'>('overview');
     const [stats, setStats] = useState({
-        latency: generateData(20, 20, 150),
-        tokens: generateData(20, 10, 500),
         cost: 0.042 // Fake cost accumulator
     });
+    const latency = useLatencyMetrics(isOpen);
+    // Broadcast is edited as a draft and only published on Send, so users never see half-typed text
+    const [broadcastDraft, setBroadcastDraft] = useState(config.systemBroadcast || '');
+    const [disconnectNotice, setDisconnectNotice] = useState<string | null>(null);
+
+    // Audit trail: the reason applies to every change made until it is edited
+    const [changeReason, setChangeReason] = useState('');
+    const [auditEntries, setAuditEntries] = useState<AdminAuditEntry[]>(() => AdminAuditLog.getInstance().list());
+    const [diffVersions, setDiffVersions] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+
+    useEffect(() => {
+        const log = AdminAuditLog.getInstance();
+        setAuditEntries(log.list());
+        return log.subscribe(() => setAuditEntries(log.list()));
+    }, []);
+
+    // Role gate: every action below checks a permission first and refusals are logged
+    const access = AccessControl.getInstance();
+    const { policy } = useAccessRole();
+    const [accessNotice, setAccessNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!accessNotice) return;
+        const timer = setTimeout(() => setAccessNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [accessNotice]);
+
+    const denied = (missing: Permission[]) =>
+        setAccessNotice(`Not permitted: ${missing.map(p => `${PERMISSION_LABELS[p]} (${policy[p]})`).join(', ')}`);
+
+    const handleClose = () => {
+        access.dropElevation('console closed');
+        onClose();
+    };
+
+    const handleWipeMemory = () => {
+        if (!access.authorize('memory.wipe')) return denied(['memory.wipe']);
+        onWipeMemory();
+    };
+
+    // Loosening safety needs a stated reason: take it from the reason field or ask for one
+    const updateConfig = (next: AdminConfig, meta: AdminConfigUpdateMeta = {}) => {
+        const missing = access.authorizeConfigChange(
+            diffAdminConfigs(config, next).map(c => c.key),
+            meta.rollbackTo !== undefined ? ['config.rollback'] : []
+        );
+        if (missing.length > 0) return denied(missing);
+
+        let reason = meta.reason ?? changeReason.trim();
+        if (!reason && isSensitiveChange(config, next)) {
+            reason = window.prompt('This change relaxes safety. Enter a reason for the audit log:')?.trim() || '';
+            if (!reason) return;
+        }
+        onUpdateConfig(next, { ...meta, reason });
+    };
+
+    const rollbackTo = (entry: AdminAuditEntry) => {
+        if (!window.confirm(`Restore configuration v${entry.version}?`)) return;
+        updateConfig(entry.config, { rollbackTo: entry.version, reason: changeReason.trim() || undefined });
+    };
     
     // Simulate live data updates
     useEffect(() => {
         if (!isOpen) return;
         const interval = setInterval(() => {
             setStats(prev => ({
-                latency: [...prev.latency.slice(1), Math.floor(Math.random() * 100 + 40)],
-                tokens: [...prev.tokens.slice(1), Math.random() > 0.8 ? Math.floor(Math.random() * 800) : 0],
                 cost: prev.cost + 0.0001
             }));
         }, 1000);
@@ -41,8 +107,15 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
     if (!isOpen) return null;
 
+    const responseSeries = latency.turns.flatMap(t => t.responseMs === null ? [] : [t.responseMs]).slice(-SPARKLINE_SAMPLES);
+    const ttfaSeries = latency.turns.flatMap(t => t.ttfaMs === null ? [] : [t.ttfaMs]).slice(-SPARKLINE_SAMPLES);
+    const bargeInSeries = latency.bargeIns.map(b => b.stopMs).slice(-SPARKLINE_SAMPLES);
+
     // Mini Graph Component
     const Sparkline = ({ data, color, height = 40 }: { data: number[], color: string, height?: number }) => {
+        if (data.length < 2) {
+            return <div className="h-full flex items-center justify-center text-slate-600 text-[10px] uppercase">Awaiting samples</div>;
+        }
         const max = Math.max(...data, 1);
         const points = data.map((d, i) => {
             const x = (i / (data.length - 1)) * 100;
@@ -68,6 +141,31 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
         );
     };
 
+    const LatencyCard = ({ label, summary, series, color, budgetMs }: {
+        label: string, summary: LatencySummary, series: number[], color: string, budgetMs: number
+    }) => {
+        const overBudget = summary.p95 !== null && summary.p95 > budgetMs;
+        return (
+            <div className="bg-slate-900 border border-white/10 p-4 rounded-lg">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <div className="text-slate-500 text-[10px] uppercase">{label}</div>
+                        <div className="text-2xl font-bold text-white">{formatMs(summary.last)}</div>
+                        <div className="text-slate-500 text-[10px] mt-1">
+                            p50 <span className="text-slate-300">{formatMs(summary.p50)}</span> · p95 <span className="text-slate-300">{formatMs(summary.p95)}</span> · n={summary.count}
+                        </div>
+                    </div>
+                    {summary.count === 0
+                        ? <div className="text-slate-500 text-xs">No data</div>
+                        : <div className={`text-xs ${overBudget ? 'text-yellow-500' : 'text-green-500'}`}>{overBudget ? 'SLOW' : 'OK'}</div>}
+                </div>
+                <div className="h-12">
+                    <Sparkline data={series} color={color} />
+                </div>
+            </div>
+        );
+    };
+
     return (
         <div className="fixed inset-0 z-[200] bg-black text-xs font-mono animate-in fade-in duration-200 flex flex-col">
             {/* Top Bar */}
@@ -84,9 +182,17 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 </div>
                 
                 <div className="flex items-center gap-4">
+                    <RoleElevation />
+                    <input
+                        type="text"
+                        value={changeReason}
+                        onChange={(e) => setChangeReason(e.target.value)}
+                        placeholder="Reason for changes (audit log)…"
+                        className="hidden md:block w-64 bg-black border border-white/10 rounded px-3 py-1 text-white focus:border-indigo-500 outline-none"
+                    />
                     {config.godMode && <span className="text-red-500 animate-pulse font-bold">GOD MODE ACTIVE</span>}
                     <button 
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white border border-white/5 rounded transition-colors"
                     >
                         EXIT CONSOLE
@@ -94,6 +200,10 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 </div>
             </div>
 
+            {accessNotice && (
+                <div className="bg-red-900/40 border-b border-red-500/30 text-red-300 px-4 py-1.5 shrink-0">{accessNotice}</div>
+            )}
+
             <div className="flex-1 flex overflow-hidden">
                 {/* Sidebar */}
                 <div className="w-48 md:w-64 bg-slate-900 border-r border-white/10 flex flex-col shrink-0">
@@ -104,6 +214,8 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 { id: 'overview', label: 'Dashboard Overview', icon: 'M3 13h8V3H3v10zm0 8h8v-6H3v6zm10 0h8V11h-8v10zm0-18v6h8V3h-8z' },
                                 { id: 'neural', label: 'Neural Configuration', icon: 'M12 2a10 10 0 100 20 10 10 0 000-20zM9.5 5.5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm0 9a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm5 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm0-9a1.5 1.5 0 110 3 1.5 1.5 0 010-3z' },
                                 { id: 'system', label: 'System & Network', icon: 'M2 12C2 6.48 6.48 2 12 2s10 4.48 10 10-4.48 10-10 10S2 17.52 2 12zm10 6c3.31 0 6-2.69 6-6s-2.69-6-6-6-6 2.69-6 6 2.69 6 6 6z' },
+                                { id: 'audit', label: 'Config Audit', icon: 'M13 3a9 9 0 00-9 9H1l3.89 3.89.07.14L9 12H6a7 7 0 117 7 6.96 6.96 0 01-4.95-2.05l-1.42 1.42A8.95 8.95 0 0013 21a9 9 0 000-18zm-1 5v5l4.25 2.52.77-1.28-3.52-2.09V8H12z' },
+                                { id: 'access', label: 'Access Control', icon: 'M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm0 6a2 2 0 110 4 2 2 0 010-4zm4 10H8v-1c0-1.33 2.67-2 4-2s4 .67 4 2v1z' },
                                 { id: 'logs', label: 'Live Logs', icon: 'M4 6h16v2H4V6zm0 5h16v2H4v-2zm0 5h7v2H4v-2z' },
                             ].map(item => (
                                 <button
@@ -139,44 +251,55 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                             <h2 className="text-xl font-bold text-white mb-4 border-b border-white/10 pb-2">Real-Time Telemetry</h2>
                             
                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                                <div className="bg-slate-900 border border-white/10 p-4 rounded-lg">
-                                    <div className="flex justify-between items-start mb-4">
-                                        <div>
-                                            <div className="text-slate-500 text-[10px] uppercase">Est. Latency</div>
-                                            <div className="text-2xl font-bold text-white">{stats.latency[stats.latency.length-1]} ms</div>
-                                        </div>
-                                        <div className="text-green-500 text-xs">OK</div>
-                                    </div>
-                                    <div className="h-12">
-                                        <Sparkline data={stats.latency} color="#22c55e" />
-                                    </div>
-                                </div>
+                                <LatencyCard label="Response Latency" summary={latency.response} series={responseSeries} color="#22c55e" budgetMs={1500} />
+                                <LatencyCard label="Time to First Audio" summary={latency.ttfa} series={ttfaSeries} color="#6366f1" budgetMs={1500} />
+                                <LatencyCard label="Barge-in Stop" summary={latency.bargeInStop} series={bargeInSeries} color="#f59e0b" budgetMs={500} />
+                            </div>
 
-                                <div className="bg-slate-900 border border-white/10 p-4 rounded-lg">
-                                    <div className="flex justify-between items-start mb-4">
-                                        <div>
-                                            <div className="text-slate-500 text-[10px] uppercase">Token Throughput</div>
-                                            <div className="text-2xl font-bold text-white">{stats.tokens[stats.tokens.length-1]} t/s</div>
-                                        </div>
-                                        <div className="text-indigo-400 text-xs">High</div>
-                                    </div>
-                                    <div className="h-12">
-                                        <Sparkline data={stats.tokens} color="#6366f1" />
+                            <div className="bg-slate-900 border border-white/10 p-6 rounded-lg">
+                                <div className="flex justify-between items-center mb-4">
+                                    <div>
+                                        <h3 className="text-sm font-bold text-white">Per-Turn Latency</h3>
+                                        <p className="text-[10px] text-slate-500 mt-1">Measured from the end of user speech (VAD hangover removed, talk-key release, or typed send).</p>
                                     </div>
-                                </div>
-
-                                <div className="bg-slate-900 border border-white/10 p-4 rounded-lg">
-                                    <div className="flex justify-between items-start mb-4">
-                                        <div>
-                                            <div className="text-slate-500 text-[10px] uppercase">CPU Load (Sim)</div>
-                                            <div className="text-2xl font-bold text-white">12%</div>
+                                    <div className="flex items-center gap-3">
+                                        <button
+                                            onClick={() => LatencyMetrics.getInstance().clear()}
+                                            className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded text-[10px] uppercase font-bold"
+                                        >
+                                            Reset
+                                        </button>
+                                        <div className={`w-10 h-5 rounded-full p-0.5 cursor-pointer transition-colors ${config.debugLatency ? 'bg-cyan-500' : 'bg-slate-700'}`} onClick={() => updateConfig({...config, debugLatency: !config.debugLatency})}>
+                                            <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${config.debugLatency ? 'translate-x-5' : ''}`}></div>
                                         </div>
-                                        <div className="text-blue-400 text-xs">Stable</div>
-                                    </div>
-                                    <div className="h-1.5 w-full bg-slate-800 rounded-full mt-6 overflow-hidden">
-                                        <div className="h-full bg-blue-500 w-[12%]"></div>
+                                        <span className="text-[10px] uppercase font-bold text-slate-400">Debug Latency</span>
                                     </div>
                                 </div>
+                                {config.debugLatency ? (
+                                    latency.turns.length === 0 ? (
+                                        <div className="text-slate-600 text-[10px] uppercase">No completed turns yet</div>
+                                    ) : (
+                                        <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                                            <table className="w-full text-left">
+                                                <thead className="text-slate-500 text-[10px] uppercase">
+                                                    <tr><th className="py-1">Time</th><th>Turn End</th><th>Response</th><th>TTFA</th></tr>
+                                                </thead>
+                                                <tbody>
+                                                    {[...latency.turns].reverse().map(turn => (
+                                                        <tr key={turn.id} className="border-t border-white/5 text-slate-300">
+                                                            <td className="py-1 text-slate-500">{new Date(turn.timestamp).toLocaleTimeString()}</td>
+                                                            <td>{turn.trigger}</td>
+                                                            <td>{formatMs(turn.responseMs)}</td>
+                                                            <td>{formatMs(turn.ttfaMs)}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )
+                                ) : (
+                                    <div className="text-slate-600 text-[10px] uppercase">Enable Debug Latency for per-turn detail and the live latency HUD</div>
+                                )}
                             </div>
 
                             <div className="bg-slate-900 border border-white/10 p-6 rounded-lg">
@@ -186,7 +309,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 </div>
                                 <div className="mt-4 flex justify-end">
                                     <button 
-                                        onClick={onWipeMemory}
+                                        onClick={handleWipeMemory}
                                         className="px-4 py-2 bg-red-900/30 hover:bg-red-900/50 border border-red-500/30 text-red-400 rounded transition-colors uppercase font-bold text-xs"
                                     >
                                         Wipe Session Memory
@@ -222,7 +345,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         </p>
                                     </div>
                                     <button 
-                                        onClick={() => onUpdateConfig({...config, godMode: !config.godMode})}
+                                        onClick={() => updateConfig({...config, godMode: !config.godMode})}
                                         className={`px-8 py-4 rounded font-bold text-sm tracking-widest transition-all ${
                                             config.godMode 
                                             ? 'bg-red-600 text-white shadow-[0_0_30px_rgba(220,38,38,0.5)] scale-105' 
@@ -239,12 +362,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 <div className="bg-slate-900 border border-white/10 p-5 rounded-lg">
                                     <div className="flex justify-between mb-2">
                                         <label className="text-slate-400 font-bold uppercase">Temperature</label>
-                                        <span className="text-cyan-400 font-mono">{config.temperature || 0.7}</span>
+                                        <span className="text-cyan-400 font-mono">{config.temperature ?? 0.7}</span>
                                     </div>
                                     <input 
                                         type="range" min="0" max="2" step="0.1"
-                                        value={config.temperature || 0.7}
-                                        onChange={(e) => onUpdateConfig({...config, temperature: parseFloat(e.target.value)})}
+                                        value={config.temperature ?? 0.7}
+                                        onChange={(e) => updateConfig({...config, temperature: parseFloat(e.target.value)})}
                                         className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                                     />
                                     <p className="text-[10px] text-slate-500 mt-2">Controls randomness. 0.0 is deterministic, 2.0 is highly creative/chaotic.</p>
@@ -263,7 +386,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         {['strict', 'relaxed', 'off'].map((opt) => (
                                             <button
                                                 key={opt}
-                                                onClick={() => onUpdateConfig({...config, safetyFilters: opt as any})}
+                                                onClick={() => updateConfig({...config, safetyFilters: opt as any})}
                                                 className={`flex-1 py-2 rounded text-xs uppercase font-bold border ${
                                                     config.safetyFilters === opt 
                                                     ? 'bg-indigo-600 border-indigo-500 text-white' 
@@ -276,6 +399,19 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                     </div>
                                 </div>
                             </div>
+
+                            <div className="bg-slate-900 border border-white/10 p-5 rounded-lg flex justify-between items-center gap-4">
+                                <div>
+                                    <label className="text-slate-400 font-bold uppercase">Semantic Retrieval</label>
+                                    <p className="text-[10px] text-slate-500 mt-2 max-w-lg">Ranks learning source excerpts with Gemini embeddings as well as keyword (BM25) matching. Better recall for paraphrased questions; each new source is embedded once, which costs extra API calls.</p>
+                                </div>
+                                <div className="flex items-center gap-3 shrink-0">
+                                    <div className={`w-10 h-5 rounded-full p-0.5 cursor-pointer transition-colors ${config.semanticRetrieval ? 'bg-cyan-500' : 'bg-slate-700'}`} onClick={() => updateConfig({...config, semanticRetrieval: !config.semanticRetrieval})}>
+                                        <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${config.semanticRetrieval ? 'translate-x-5' : ''}`}></div>
+                                    </div>
+                                    <span className="text-[10px] uppercase font-bold text-slate-400">{config.semanticRetrieval ? 'On' : 'Off'}</span>
+                                </div>
+                            </div>
                         </div>
                     )}
 
@@ -291,7 +427,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         If enabled, all non-admin users will be disconnected and shown a maintenance screen.
                                     </p>
                                     <div className="flex items-center gap-3">
-                                        <div className={`w-12 h-6 rounded-full p-1 cursor-pointer transition-colors ${config.maintenanceMode ? 'bg-yellow-500' : 'bg-slate-700'}`} onClick={() => onUpdateConfig({...config, maintenanceMode: !config.maintenanceMode})}>
+                                        <div className={`w-12 h-6 rounded-full p-1 cursor-pointer transition-colors ${config.maintenanceMode ? 'bg-yellow-500' : 'bg-slate-700'}`} onClick={() => updateConfig({...config, maintenanceMode: !config.maintenanceMode})}>
                                             <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${config.maintenanceMode ? 'translate-x-6' : ''}`}></div>
                                         </div>
                                         <span className="font-bold">{config.maintenanceMode ? 'ACTIVE' : 'INACTIVE'}</span>
@@ -304,11 +440,28 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         type="text" 
                                         placeholder="Enter system message..." 
                                         className="w-full bg-black border border-white/10 rounded px-3 py-2 text-white mb-3 focus:border-indigo-500 outline-none"
-                                        onChange={(e) => onUpdateConfig({...config, systemBroadcast: e.target.value})}
-                                        value={config.systemBroadcast || ''}
+                                        onChange={(e) => setBroadcastDraft(e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') updateConfig({...config, systemBroadcast: broadcastDraft.trim() || undefined}); }}
+                                        value={broadcastDraft}
                                     />
-                                    <div className="flex justify-end">
-                                        <button className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded text-xs uppercase font-bold">Send</button>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-[10px] text-slate-500 truncate">{config.systemBroadcast ? `Live: "${config.systemBroadcast}"` : 'No active broadcast'}</span>
+                                        <div className="flex gap-2">
+                                            <button
+                                                disabled={!config.systemBroadcast}
+                                                onClick={() => { setBroadcastDraft(''); updateConfig({...config, systemBroadcast: undefined}); }}
+                                                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded text-xs uppercase font-bold disabled:opacity-40"
+                                            >
+                                                Clear
+                                            </button>
+                                            <button
+                                                disabled={!broadcastDraft.trim() || broadcastDraft.trim() === config.systemBroadcast}
+                                                onClick={() => updateConfig({...config, systemBroadcast: broadcastDraft.trim()})}
+                                                className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded text-xs uppercase font-bold disabled:opacity-40"
+                                            >
+                                                Send
+                                            </button>
+                                        </div>
                                     </div>
                                 </div>
                              </div>
@@ -316,17 +469,134 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                              <div className="bg-slate-900 border border-white/10 p-5 rounded-lg">
                                  <h3 className="text-sm font-bold text-white mb-4">Danger Zone</h3>
                                  <div className="flex gap-4">
-                                     <button className="px-4 py-2 bg-red-900/20 border border-red-500/50 text-red-400 hover:bg-red-900/40 rounded uppercase font-bold text-xs">
+                                     <button
+                                         onClick={() => {
+                                             if (!access.authorize('session.forceDisconnect')) return denied(['session.forceDisconnect']);
+                                             if (!window.confirm('End every live voice session in this client now?')) return;
+                                             MaintenanceGate.getInstance().forceDisconnectAll('admin console');
+                                             setDisconnectNotice(`Disconnect sent at ${new Date().toLocaleTimeString()}`);
+                                         }}
+                                         className="px-4 py-2 bg-red-900/20 border border-red-500/50 text-red-400 hover:bg-red-900/40 rounded uppercase font-bold text-xs"
+                                     >
                                          Force Disconnect All
                                      </button>
                                      <button className="px-4 py-2 bg-red-900/20 border border-red-500/50 text-red-400 hover:bg-red-900/40 rounded uppercase font-bold text-xs">
                                          Flush Redis Cache
                                      </button>
                                  </div>
+                                 {disconnectNotice && <p className="text-[10px] text-slate-500 mt-3">{disconnectNotice}</p>}
                              </div>
                          </div>
                     )}
 
+                    {/* AUDIT TAB */}
+                    {activeTab === 'audit' && (() => {
+                        const versionA = diffVersions.a !== null ? AdminAuditLog.getInstance().getVersion(diffVersions.a) : null;
+                        const versionB = diffVersions.b !== null ? AdminAuditLog.getInstance().getVersion(diffVersions.b) : null;
+                        const latestVersion = auditEntries[auditEntries.length - 1]?.version;
+                        return (
+                            <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
+                                <div className="flex justify-between items-center border-b border-white/10 pb-2 mb-4">
+                                    <h2 className="text-xl font-bold text-white">Configuration Audit</h2>
+                                    <button
+                                        onClick={() => AdminAuditLog.getInstance().downloadNdjson()}
+                                        disabled={auditEntries.length === 0}
+                                        className="px-3 py-1 bg-cyan-900/50 text-cyan-400 border border-cyan-500/30 rounded uppercase font-bold hover:bg-cyan-900/80 disabled:opacity-40"
+                                    >
+                                        Export NDJSON
+                                    </button>
+                                </div>
+
+                                {versionA && versionB && (
+                                    <div className="bg-slate-900 border border-white/10 p-5 rounded-lg">
+                                        <div className="flex justify-between items-center mb-3">
+                                            <h3 className="text-slate-400 font-bold uppercase">Diff v{versionA.version} → v{versionB.version}</h3>
+                                            <button onClick={() => setDiffVersions({ a: null, b: null })} className="text-slate-500 hover:text-white uppercase">Close</button>
+                                        </div>
+                                        {(() => {
+                                            const changes = diffAdminConfigs(versionA.config, versionB.config);
+                                            return changes.length === 0 ? (
+                                                <div className="text-slate-600 italic">Identical configurations.</div>
+                                            ) : (
+                                                <table className="w-full text-left">
+                                                    <thead className="text-slate-500 text-[10px] uppercase">
+                                                        <tr><th className="pb-2">Field</th><th className="pb-2">v{versionA.version}</th><th className="pb-2">v{versionB.version}</th></tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {changes.map(change => (
+                                                            <tr key={change.key} className="border-t border-white/5">
+                                                                <td className="py-1 text-slate-300">{change.key}</td>
+                                                                <td className="py-1 text-red-400">{formatAuditValue(change.from)}</td>
+                                                                <td className="py-1 text-green-400">{formatAuditValue(change.to)}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            );
+                                        })()}
+                                    </div>
+                                )}
+
+                                <div className="bg-slate-900 border border-white/10 rounded-lg overflow-hidden">
+                                    <table className="w-full text-left">
+                                        <thead className="bg-slate-950 text-slate-500 text-[10px] uppercase">
+                                            <tr>
+                                                <th className="p-2">Ver</th>
+                                                <th className="p-2">Time</th>
+                                                <th className="p-2">Action</th>
+                                                <th className="p-2">Changes</th>
+                                                <th className="p-2">Reason</th>
+                                                <th className="p-2 text-right">Diff / Restore</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {auditEntries.length === 0 && (
+                                                <tr><td colSpan={6} className="p-4 text-slate-600 italic">No configuration changes recorded.</td></tr>
+                                            )}
+                                            {[...auditEntries].reverse().map(entry => (
+                                                <tr key={entry.id} className="border-t border-white/5 align-top hover:bg-white/5">
+                                                    <td className="p-2 text-white font-bold">v{entry.version}</td>
+                                                    <td className="p-2 text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                                    <td className={`p-2 uppercase ${entry.action === 'rollback' ? 'text-yellow-500' : entry.action === 'update' ? 'text-cyan-400' : 'text-slate-500'}`}>
+                                                        {entry.action}{entry.rollbackOf !== undefined ? ` → v${entry.rollbackOf}` : ''}
+                                                    </td>
+                                                    <td className="p-2 text-slate-300">
+                                                        {entry.changes.length === 0
+                                                            ? <span className="text-slate-600">—</span>
+                                                            : entry.changes.map(change => (
+                                                                <div key={change.key}>{change.key}: <span className="text-red-400">{formatAuditValue(change.from)}</span> → <span className="text-green-400">{formatAuditValue(change.to)}</span></div>
+                                                            ))}
+                                                    </td>
+                                                    <td className="p-2 text-slate-400">{entry.reason || <span className="text-slate-600 italic">none</span>}</td>
+                                                    <td className="p-2 text-right whitespace-nowrap">
+                                                        <button
+                                                            onClick={() => setDiffVersions(d => ({ ...d, a: entry.version }))}
+                                                            className={`px-2 py-0.5 rounded border mr-1 ${diffVersions.a === entry.version ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                                                        >A</button>
+                                                        <button
+                                                            onClick={() => setDiffVersions(d => ({ ...d, b: entry.version }))}
+                                                            className={`px-2 py-0.5 rounded border mr-2 ${diffVersions.b === entry.version ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                                                        >B</button>
+                                                        <button
+                                                            onClick={() => rollbackTo(entry)}
+                                                            disabled={entry.version === latestVersion}
+                                                            className="px-2 py-0.5 rounded border border-yellow-500/30 text-yellow-500 hover:bg-yellow-900/30 disabled:opacity-30"
+                                                        >
+                                                            Restore
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        );
+                    })()}
+
+                    {/* ACCESS TAB */}
+                    {activeTab === 'access' && <AccessControlPanel />}
+
                     {/* LOGS TAB (Placeholder) */}
                     {activeTab === 'logs' && (
                         <div className="h-full flex flex-col">
@@ -335,11 +605,16 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 <div className="text-green-500">[SYSTEM] Admin Console Initialized</div>
                                 <div className="text-slate-500">[INFO] WebSocket connected pool: 1</div>
                                 <div className="text-slate-500">[INFO] Telemetry stream active</div>
-                                {stats.latency.map((l, i) => (
-                                    <div key={i} className="text-slate-500">
-                                        [METRIC] Latency sample: {l}ms - {new Date().toISOString()}
+                                {latency.turns.slice(-10).map(turn => (
+                                    <div key={turn.id} className="text-slate-500">
+                                        [METRIC] Turn latency ({turn.trigger}): response {formatMs(turn.responseMs)}, TTFA {formatMs(turn.ttfaMs)} - {new Date(turn.timestamp).toISOString()}
+                                    </div>
+                                ))}
+                                {latency.bargeIns.slice(-5).map(bargeIn => (
+                                    <div key={bargeIn.id} className="text-slate-500">
+                                        [METRIC] Barge-in stop: {bargeIn.stopMs}ms - {new Date(bargeIn.timestamp).toISOString()}
                                     </div>
-                                )).slice(-10)}
+                                ))}
                             </div>
                         </div>
                     )}
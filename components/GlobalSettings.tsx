@@ -1,6 +1,9 @@
 
-import React, { useState } from 'react';
-import { AppTheme, VoiceProfile, MemoryLayer, CustomThemeConfig } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { AppTheme, VoiceProfile, MemoryLayer, CustomThemeConfig, AudioDevicePreferences } from '../types';
+import { listAudioDevices, supportsOutputSelection } from '../utils/audioDevices';
+import { WorkspaceBundle, WorkspaceSection, WorkspaceSnapshot } from '../utils/workspaceBundle';
+import { WorkspaceBundlePanel } from './settings/WorkspaceBundlePanel';
 
 interface GlobalSettingsProps {
     isOpen: boolean;
@@ -21,6 +24,14 @@ interface GlobalSettingsProps {
     // Memory Props
     memory: MemoryLayer;
     onUpdateMemory: (newMemory: MemoryLayer) => void;
+
+    // Audio Device Props
+    audioDevices: AudioDevicePreferences;
+    onUpdateAudioDevices: (prefs: AudioDevicePreferences) => void;
+
+    // Workspace Bundle Props
+    workspace: WorkspaceSnapshot;
+    onImportWorkspace: (bundle: WorkspaceBundle, sections: WorkspaceSection[]) => WorkspaceSection[];
 }
 
 const THEMES: AppTheme[] = ['nexus', 'obsidian', 'aether', 'vertex', 'crimson', 'midnight', 'cyber', 'aurora', 'solaris', 'royale', 'terminal'];
@@ -29,10 +40,25 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
     isOpen, onClose,
     currentTheme, onSetTheme, customColors, onUpdateCustomColor,
     profiles, activeProfileId, onSelectProfile, onOpenVoiceSettings,
-    memory, onUpdateMemory
+    memory, onUpdateMemory,
+    audioDevices, onUpdateAudioDevices,
+    workspace, onImportWorkspace
 }) => {
-    const [activeTab, setActiveTab] = useState<'appearance' | 'persona' | 'memory'>('appearance');
+    const [activeTab, setActiveTab] = useState<'appearance' | 'persona' | 'memory' | 'devices' | 'workspace'>('appearance');
     const [newItem, setNewItem] = useState('');
+    const [deviceList, setDeviceList] = useState<{ inputs: MediaDeviceInfo[]; outputs: MediaDeviceInfo[] }>({ inputs: [], outputs: [] });
+
+    const refreshDevices = useCallback(() => {
+        listAudioDevices().then(setDeviceList).catch(e => console.warn("Device enumeration failed", e));
+    }, []);
+
+    // Keep the picker current while it's visible (headsets come and go)
+    useEffect(() => {
+        if (!isOpen || activeTab !== 'devices') return;
+        refreshDevices();
+        navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+        return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+    }, [isOpen, activeTab, refreshDevices]);
 
     if (!isOpen) return null;
 
@@ -103,6 +129,18 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
                     >
                         Memory Management
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('devices')}
+                        className={`flex-1 py-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'devices' ? 'bg-skin-surface border-b-2 border-skin-accent text-skin-text' : 'text-skin-muted hover:text-skin-text'}`}
+                    >
+                        Audio Devices
+                    </button>
+                    <button 
+                        onClick={() => setActiveTab('workspace')}
+                        className={`flex-1 py-4 text-xs font-bold uppercase tracking-widest transition-colors ${activeTab === 'workspace' ? 'bg-skin-surface border-b-2 border-skin-accent text-skin-text' : 'text-skin-muted hover:text-skin-text'}`}
+                    >
+                        Import / Export
+                    </button>
                 </div>
 
                 {/* Content */}
@@ -365,6 +403,68 @@ export const GlobalSettings: React.FC<GlobalSettingsProps> = ({
                         </div>
                     )}
 
+                    {/* TAB: AUDIO DEVICES */}
+                    {activeTab === 'devices' && (
+                        <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+                            <div className="glass-panel p-6 rounded-xl border border-skin-border">
+                                <div className="flex justify-between items-center mb-4 border-b border-skin-border pb-2">
+                                    <h3 className="text-sm font-bold text-skin-text">Input & Output</h3>
+                                    <button 
+                                        onClick={refreshDevices}
+                                        className="text-[10px] text-skin-muted hover:text-skin-text font-bold uppercase border border-skin-border px-2 py-1 rounded bg-skin-surface hover:bg-skin-surface-hover"
+                                    >
+                                        Refresh
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold text-skin-muted uppercase mb-1">Microphone</label>
+                                        <select
+                                            value={audioDevices.inputId || ''}
+                                            onChange={(e) => onUpdateAudioDevices({ ...audioDevices, inputId: e.target.value || null })}
+                                            className="w-full glass-input rounded-lg px-3 py-2 text-sm"
+                                        >
+                                            <option value="">System Default</option>
+                                            {deviceList.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                                                <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+                                            ))}
+                                            {audioDevices.inputId && !deviceList.inputs.some(d => d.deviceId === audioDevices.inputId) && (
+                                                <option value={audioDevices.inputId}>Saved device (not connected)</option>
+                                            )}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-skin-muted uppercase mb-1">Speaker</label>
+                                        <select
+                                            value={audioDevices.outputId || ''}
+                                            onChange={(e) => onUpdateAudioDevices({ ...audioDevices, outputId: e.target.value || null })}
+                                            disabled={!supportsOutputSelection()}
+                                            className="w-full glass-input rounded-lg px-3 py-2 text-sm disabled:opacity-50"
+                                        >
+                                            <option value="">System Default</option>
+                                            {deviceList.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+                                                <option key={d.deviceId} value={d.deviceId}>{d.label || `Speaker ${i + 1}`}</option>
+                                            ))}
+                                            {audioDevices.outputId && !deviceList.outputs.some(d => d.deviceId === audioDevices.outputId) && (
+                                                <option value={audioDevices.outputId}>Saved device (not connected)</option>
+                                            )}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div className="mt-4 p-3 bg-skin-accent-dim/10 rounded-lg text-xs text-skin-muted border border-skin-border border-dashed">
+                                    Changes apply to a running session without reconnecting. If a chosen device is unplugged, audio falls back to the system default and returns when it is reconnected.
+                                    {!supportsOutputSelection() && ' This browser does not support choosing a speaker.'}
+                                    {deviceList.inputs.length > 0 && !deviceList.inputs[0].label && ' Device names appear after microphone access has been granted once.'}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* TAB: WORKSPACE BUNDLE */}
+                    {activeTab === 'workspace' && (
+                        <WorkspaceBundlePanel snapshot={workspace} onImport={onImportWorkspace} />
+                    )}
+
                 </div>
             </div>
         </div>
@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { TranscriptionItem } from '../types';
+import {
+    downloadTranscript, ImportedTranscript, parseTranscriptJson, TranscriptExportOptions, TRANSCRIPT_FORMATS
+} from '../utils/transcriptExport';
+
+interface TranscriptExportMenuProps {
+    items: TranscriptionItem[];
+    filenameBase: string;
+    options?: TranscriptExportOptions;
+    onImport?: (transcript: ImportedTranscript) => void; // Shows an Import action when set
+    importDisabled?: boolean;
+    variant?: 'skin' | 'console'; // Themed app chrome vs. the slate producer console
+}
+
+export const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({
+    items, filenameBase, options, onImport, importDisabled = false, variant = 'skin'
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const palette = variant === 'skin'
+        ? { button: 'text-skin-muted hover:text-skin-text border-skin-border', menu: 'bg-skin-surface border-skin-border', item: 'text-skin-text hover:bg-skin-accent-dim' }
+        : { button: 'text-slate-400 hover:text-white border-white/10', menu: 'bg-slate-800 border-white/10', item: 'text-slate-200 hover:bg-white/10' };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file || !onImport) return;
+        try {
+            onImport(parseTranscriptJson(await file.text()));
+            setImportError(null);
+            setIsOpen(false);
+        } catch (e) {
+            setImportError(e instanceof Error ? e.message : 'Import failed');
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className={`px-2 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wider transition-colors ${palette.button}`}
+            >
+                Export
+            </button>
+            {isOpen && (
+                <div className={`absolute right-0 top-full mt-1 z-20 w-40 rounded-lg border shadow-xl py-1 ${palette.menu}`}>
+                    {TRANSCRIPT_FORMATS.map(format => (
+                        <button
+                            key={format.id}
+                            disabled={items.length === 0}
+                            onClick={() => { downloadTranscript(items, format.id, filenameBase, options); setIsOpen(false); }}
+                            className={`w-full text-left px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider disabled:opacity-40 ${palette.item}`}
+                        >
+                            {format.label} <span className="opacity-50">.{format.extension}</span>
+                        </button>
+                    ))}
+                    {onImport && (
+                        <>
+                            <div className="my-1 border-t border-white/10"></div>
+                            <button
+                                disabled={importDisabled}
+                                onClick={() => fileInputRef.current?.click()}
+                                className={`w-full text-left px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider disabled:opacity-40 ${palette.item}`}
+                                title={importDisabled ? 'Disconnect to reopen an archived transcript' : 'Open a JSON transcript export'}
+                            >
+                                Import JSON…
+                            </button>
+                            {importError && <div className="px-3 py-1 text-[9px] text-red-400">{importError}</div>}
+                            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { VoiceProfile, VoiceName } from '../types';
+import { VoiceProfile, VoiceName, CaptureMode } from '../types';
 
 interface VoiceSettingsProps {
     isOpen: boolean;
@@ -298,6 +298,31 @@ export const VoiceSettings: React.FC<VoiceSettingsProps> = ({
                             {/* Column 1 */}
                             <div className="space-y-10">
                                 
+                                {/* Section: Input Capture */}
+                                <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+                                    <h4 className="text-sm font-bold text-skin-text mb-6 flex items-center gap-2 border-b border-skin-border pb-3">
+                                        <span className="w-1.5 h-4 bg-red-400 rounded-full shadow-glow"></span>
+                                        Input Capture
+                                    </h4>
+                                    <ToggleGroup 
+                                        label="Capture Mode"
+                                        options={['continuous', 'push-to-talk', 'toggle']}
+                                        value={activeProfile.captureMode}
+                                        onChange={(v) => onUpdateProfile(activeProfile.id, { captureMode: v as CaptureMode })}
+                                        tooltipTitle="Capture Mode"
+                                        tooltipContent="Continuous streams the mic whenever connected. Push-to-talk streams only while Space (or the talk button) is held and ends your turn on release. Toggle starts and ends a turn with each tap. Takes full effect from the next connect."
+                                    />
+                                    <div className="mt-4">
+                                        <SwitchControl
+                                            label="Record Sessions"
+                                            value={activeProfile.recordSessions}
+                                            onChange={(v) => onUpdateProfile(activeProfile.id, { recordSessions: v })}
+                                            tooltipTitle="Record Sessions"
+                                            tooltipContent="Saves your mic, the AI voice and the transcript of each live session with this profile to the local Session Library for later review. Starts with the next connect; a REC badge shows while recording."
+                                        />
+                                    </div>
+                                </div>
+
                                 {/* Section 1: Human Realism (NEW) */}
                                 <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
                                     <h4 className="text-sm font-bold text-skin-text mb-6 flex items-center gap-2 border-b border-skin-border pb-3">
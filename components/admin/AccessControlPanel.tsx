@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AccessControl, Permission, PERMISSION_LABELS, ROLES, Role } from '../../services/AccessControl';
+import { useAccessRole } from '../../hooks/useAccessRole';
+
+/** Role assignments per permission and role PINs. Read-only unless the current role can manage access. */
+export const AccessControlPanel: React.FC = () => {
+    const access = AccessControl.getInstance();
+    const { policy } = useAccessRole();
+    const canManage = access.can('access.manage');
+    const [pins, setPins] = useState<{ operator: string; admin: string }>({ operator: '', admin: '' });
+    const [message, setMessage] = useState<string | null>(null);
+
+    const savePin = async (role: 'operator' | 'admin') => {
+        const ok = await access.setPin(role, pins[role]);
+        setMessage(ok ? `${role} PIN updated` : `Could not set ${role} PIN (min 4 characters, admin only)`);
+        if (ok) setPins(p => ({ ...p, [role]: '' }));
+    };
+
+    return (
+        <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
+            <div className="flex justify-between items-center border-b border-white/10 pb-2 mb-4">
+                <h2 className="text-xl font-bold text-white">Access Control</h2>
+                {!canManage && <span className="text-xs text-yellow-500 bg-yellow-500/10 px-2 py-1 rounded border border-yellow-500/20">Read only: elevate to admin to edit</span>}
+            </div>
+
+            <div className="bg-slate-900 border border-white/10 rounded-lg overflow-hidden">
+                <table className="w-full text-left">
+                    <thead className="bg-slate-950 text-slate-500 text-[10px] uppercase">
+                        <tr><th className="p-2">Action</th><th className="p-2">Minimum Role</th></tr>
+                    </thead>
+                    <tbody>
+                        {(Object.keys(PERMISSION_LABELS) as Permission[]).map(permission => (
+                            <tr key={permission} className="border-t border-white/5">
+                                <td className="p-2 text-slate-300">{PERMISSION_LABELS[permission]} <span className="text-slate-600">({permission})</span></td>
+                                <td className="p-2">
+                                    <select
+                                        value={policy[permission]}
+                                        disabled={!canManage || permission === 'access.manage'}
+                                        onChange={(e) => access.setPolicy(permission, e.target.value as Role)}
+                                        className="bg-black border border-white/10 rounded px-2 py-1 text-slate-200 disabled:opacity-50"
+                                    >
+                                        {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                                    </select>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {(['operator', 'admin'] as const).map(role => (
+                    <div key={role} className="bg-slate-900 border border-white/10 p-5 rounded-lg">
+                        <h3 className="text-sm font-bold text-white mb-1 uppercase">{role} PIN</h3>
+                        <p className="text-slate-500 text-[10px] mb-3">{access.hasPin(role) ? 'Set' : 'Not set'} · stored as a salted hash in this browser</p>
+                        <div className="flex gap-2">
+                            <input
+                                type="password"
+                                autoComplete="new-password"
+                                value={pins[role]}
+                                disabled={!canManage}
+                                onChange={(e) => setPins(p => ({ ...p, [role]: e.target.value }))}
+                                placeholder="New PIN"
+                                className="flex-1 bg-black border border-white/10 rounded px-3 py-1 text-white focus:border-indigo-500 outline-none disabled:opacity-50"
+                            />
+                            <button
+                                onClick={() => savePin(role)}
+                                disabled={!canManage || !pins[role]}
+                                className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded uppercase font-bold disabled:opacity-40"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {message && <p className="text-[10px] text-slate-400">{message}</p>}
+        </div>
+    );
+};
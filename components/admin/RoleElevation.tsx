@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { AccessControl, ElevationResult, Role } from '../../services/AccessControl';
+import { useAccessRole } from '../../hooks/useAccessRole';
+
+const ROLE_BADGE: Record<Role, string> = {
+    viewer: 'bg-slate-800 text-slate-400 border-white/10',
+    operator: 'bg-cyan-900/40 text-cyan-400 border-cyan-500/30',
+    admin: 'bg-red-900/40 text-red-400 border-red-500/30',
+};
+
+const RESULT_MESSAGES: Record<Exclude<ElevationResult, 'granted'>, string> = {
+    denied: 'Wrong PIN',
+    locked: 'Too many attempts, try again in a minute',
+    'no-pin': 'No PIN set for that role',
+};
+
+/** Top-bar role badge with PIN elevation (or first-run admin PIN setup) and a Lock button. */
+export const RoleElevation: React.FC = () => {
+    const access = AccessControl.getInstance();
+    const { role, expiresAt } = useAccessRole();
+    const [target, setTarget] = useState<'operator' | 'admin'>('admin');
+    const [pin, setPin] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const needsBootstrap = !access.hasPin('admin');
+
+    const submit = async () => {
+        if (!pin || isBusy) return;
+        setIsBusy(true);
+        try {
+            if (needsBootstrap) {
+                setMessage(await access.setPin('admin', pin) ? null : 'PIN must be at least 4 characters');
+            } else {
+                const result = await access.elevate(target, pin);
+                setMessage(result === 'granted' ? null : RESULT_MESSAGES[result]);
+            }
+        } finally {
+            setPin('');
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded border uppercase font-bold ${ROLE_BADGE[role]}`}>{role}</span>
+            {role !== 'viewer' ? (
+                <>
+                    {expiresAt && <span className="text-slate-500 hidden lg:inline">until {new Date(expiresAt).toLocaleTimeString()}</span>}
+                    <button onClick={() => access.dropElevation()} className="px-2 py-0.5 rounded border border-white/10 text-slate-400 hover:text-white uppercase">Lock</button>
+                </>
+            ) : (
+                <form onSubmit={(e) => { e.preventDefault(); submit(); }} className="flex items-center gap-1">
+                    {!needsBootstrap && (
+                        <select value={target} onChange={(e) => setTarget(e.target.value as 'operator' | 'admin')} className="bg-black border border-white/10 rounded px-1 py-0.5 text-slate-300">
+                            <option value="operator">operator</option>
+                            <option value="admin">admin</option>
+                        </select>
+                    )}
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        placeholder={needsBootstrap ? 'Create admin PIN' : 'PIN'}
+                        className="w-28 bg-black border border-white/10 rounded px-2 py-0.5 text-white focus:border-indigo-500 outline-none"
+                    />
+                    <button type="submit" disabled={!pin || isBusy} className="px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white uppercase font-bold disabled:opacity-40">
+                        {needsBootstrap ? 'Set' : 'Unlock'}
+                    </button>
+                </form>
+            )}
+            {message && <span className="text-red-400">{message}</span>}
+        </div>
+    );
+};
@@ -2,11 +2,24 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { AudioSessionManager, InterruptMode } from '../../services/AudioSessionManager';
 import { AudioTelemetryEvent } from '../../types';
+import { VadConfig } from '../../utils/voiceActivity';
+import { EffectiveGenerationConfig, GenerationConfigResolver } from '../../services/GenerationConfigResolver';
+
+const VadSlider: React.FC<{
+    label: string; value: number; min: number; max: number; step: number; unit: string;
+    onChange: (v: number) => void;
+}> = ({ label, value, min, max, step, unit, onChange }) => (
+    <div className="bg-slate-800 p-3 rounded">
+        <div className="flex justify-between mb-2"><span>{label}</span><span className="text-white font-bold">{value}{unit}</span></div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full accent-indigo-500" />
+    </div>
+);
 
 export const AudioDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const manager = useRef(AudioSessionManager.getInstance()).current;
     const [logs, setLogs] = useState<AudioTelemetryEvent[]>([]);
     const [debugState, setDebugState] = useState<any>({});
+    const [generation, setGeneration] = useState<EffectiveGenerationConfig[]>([]);
     const [activeTab, setActiveTab] = useState<'logs' | 'state'>('logs');
 
     useEffect(() => {
@@ -14,6 +27,7 @@ export const AudioDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) =
         const interval = setInterval(() => {
             setLogs(manager.getLogs().reverse());
             setDebugState(manager.getDebugState());
+            setGeneration(GenerationConfigResolver.getInstance().getEffective());
         }, 500);
         return () => clearInterval(interval);
     }, [manager]);
@@ -22,6 +36,9 @@ export const AudioDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) =
         manager.exportDebugBundle();
     };
 
+    const vad = debugState.vad;
+    const updateVad = (updates: Partial<VadConfig>) => manager.setVadConfig(updates);
+
     const handleModeToggle = () => {
         const newMode: InterruptMode = debugState.interruptMode === 'pause' ? 'duck' : 'pause';
         manager.setInterruptMode(newMode);
@@ -101,6 +118,85 @@ export const AudioDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) =
                                      </div>
                                 </div>
                             </div>
+
+                            <div className="col-span-2">
+                                <h3 className="text-slate-500 uppercase font-bold mb-4">Live Playback Buffer</h3>
+                                {debugState.playback ? (
+                                    <div className="grid grid-cols-3 gap-x-8 gap-y-2 text-slate-300">
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Buffer Depth:</span> <span className="text-white font-bold">{debugState.playback.depthMs}ms</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Target Depth:</span> <span>{debugState.playback.targetDepthMs}ms</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Arrival Jitter:</span> <span>{debugState.playback.jitterMs}ms</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Underruns:</span> <span className={debugState.playback.underruns > 0 ? 'text-yellow-500 font-bold' : 'text-green-500'}>{debugState.playback.underruns}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Chunks Scheduled:</span> <span>{debugState.playback.chunksScheduled}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Active Sources:</span> <span>{debugState.playback.activeSources}</span></div>
+                                    </div>
+                                ) : (
+                                    <div className="text-slate-600 italic">No live session.</div>
+                                )}
+                            </div>
+
+                            <div className="col-span-2">
+                                <h3 className="text-slate-500 uppercase font-bold mb-4">Effective Generation Config</h3>
+                                <table className="w-full text-left text-slate-300">
+                                    <thead className="text-slate-500 text-[10px] uppercase">
+                                        <tr><th className="pb-2">Family</th><th className="pb-2">Temperature</th><th className="pb-2">Safety</th><th className="pb-2">Thresholds</th><th className="pb-2">Applies</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {generation.map(g => (
+                                            <tr key={g.family} className="border-b border-white/5">
+                                                <td className="py-1 text-white font-bold uppercase">{g.family}</td>
+                                                <td className="py-1">{g.temperature.toFixed(1)}</td>
+                                                <td className={`py-1 uppercase ${g.safetyLevel === 'strict' ? 'text-green-500' : g.safetyLevel === 'relaxed' ? 'text-yellow-500' : 'text-red-500'}`}>{g.safetyLevel}</td>
+                                                <td className="py-1 text-[10px]">{g.safetySettings ? g.safetySettings[0]?.threshold : 'Server default (not configurable)'}</td>
+                                                <td className="py-1 text-[10px] text-slate-500">{g.appliesOn === 'next-connect' ? 'Next connect' : 'Next request'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="col-span-2">
+                                <h3 className="text-slate-500 uppercase font-bold mb-4">Vision Frame Sampler</h3>
+                                {debugState.vision ? (
+                                    <div className="grid grid-cols-3 gap-x-8 gap-y-2 text-slate-300">
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Frames Sent:</span> <span className="text-white font-bold">{debugState.vision.framesSent}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Keepalives:</span> <span>{debugState.vision.keepalives}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Skipped (static):</span> <span>{debugState.vision.skippedUnchanged}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Skipped (rate):</span> <span>{debugState.vision.skippedRate}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Skipped (budget):</span> <span className={debugState.vision.skippedBudget > 0 ? 'text-yellow-500 font-bold' : 'text-green-500'}>{debugState.vision.skippedBudget}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Last Diff:</span> <span>{(debugState.vision.lastDiff * 100).toFixed(1)}%</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>JPEG Quality:</span> <span>{debugState.vision.quality.toFixed(2)}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Encode Scale:</span> <span>{Math.round(debugState.vision.scale * 100)}%</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Last Frame:</span> <span>{(debugState.vision.lastFrameBytes / 1024).toFixed(1)} KB</span></div>
+                                    </div>
+                                ) : (
+                                    <div className="text-slate-600 italic">No camera or screen share.</div>
+                                )}
+                            </div>
+
+                            {vad && (
+                                <div className="col-span-2">
+                                    <h3 className="text-slate-500 uppercase font-bold mb-4">Voice Activity Gate</h3>
+                                    <div className="grid grid-cols-3 gap-4 mb-4 text-slate-300">
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>User Speaking:</span> <span className={vad.isSpeaking ? 'text-green-500 font-bold' : 'text-slate-500'}>{vad.isSpeaking ? 'Yes' : 'No'}</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Level:</span> <span className={vad.rmsDb >= vad.energyThresholdDb ? 'text-white' : 'text-slate-500'}>{vad.rmsDb.toFixed(1)} dBFS</span></div>
+                                        <div className="flex justify-between border-b border-white/5 pb-1"><span>Flatness:</span> <span className={vad.flatness <= vad.flatnessThreshold ? 'text-white' : 'text-slate-500'}>{vad.flatness.toFixed(2)}</span></div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4 text-slate-300">
+                                        <div className="flex justify-between items-center bg-slate-800 p-3 rounded">
+                                            <span>Noise Gate (hands-free)</span>
+                                            <button onClick={() => updateVad({ gateEnabled: !vad.gateEnabled })} className={`px-3 py-1 rounded uppercase text-[10px] font-bold border ${vad.gateEnabled ? 'bg-green-900/50 text-green-400 border-green-500/30' : 'bg-white/10 border-white/10'}`}>
+                                                {vad.gateEnabled ? 'On' : 'Off'}
+                                            </button>
+                                        </div>
+                                        <VadSlider label="Energy Threshold" value={vad.energyThresholdDb} min={-80} max={-20} step={1} unit=" dB" onChange={(v) => updateVad({ energyThresholdDb: v })} />
+                                        <VadSlider label="Flatness Threshold" value={vad.flatnessThreshold} min={0.05} max={0.95} step={0.05} unit="" onChange={(v) => updateVad({ flatnessThreshold: v })} />
+                                        <VadSlider label="Attack" value={vad.attackMs} min={0} max={300} step={20} unit=" ms" onChange={(v) => updateVad({ attackMs: v })} />
+                                        <VadSlider label="Hangover" value={vad.hangoverMs} min={100} max={2000} step={50} unit=" ms" onChange={(v) => updateVad({ hangoverMs: v })} />
+                                        <VadSlider label="Pre-Roll" value={vad.preRollMs} min={0} max={500} step={20} unit=" ms" onChange={(v) => updateVad({ preRollMs: v })} />
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
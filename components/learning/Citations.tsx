@@ -0,0 +1,57 @@
+import React from 'react';
+import { Citation, LearningSource } from '../../types';
+import { citationLabel } from '../../utils/citations';
+
+const MARKER = /^\[(\d+(?:,\s*\d+)*)\]$/;
+
+interface CitedTextProps {
+    text: string;
+    citations: Citation[];
+    onOpen: (citation: Citation) => void;
+}
+
+// Answer text with its "[1]" / "[1, 3]" markers (see groundAnswer) turned into reference links
+export const CitedText: React.FC<CitedTextProps> = ({ text, citations, onOpen }) => (
+    <>
+        {text.split(/(\[\d+(?:,\s*\d+)*\])/g).map((part, i) => {
+            const numbers = part.match(MARKER)?.[1].split(',').map(n => parseInt(n, 10));
+            if (!numbers || numbers.some(n => !citations[n - 1])) return <React.Fragment key={i}>{part}</React.Fragment>;
+            return (
+                <sup key={i} className="whitespace-nowrap">
+                    {numbers.map(n => (
+                        <button key={n} onClick={() => onOpen(citations[n - 1])} className="px-0.5 font-bold text-skin-accent hover:underline">
+                            [{n}]
+                        </button>
+                    ))}
+                </sup>
+            );
+        })}
+    </>
+);
+
+interface CitationListProps {
+    citations: Citation[];
+    sources: LearningSource[];
+    onOpen: (citation: Citation) => void;
+    numbered?: boolean; // Matches the markers of a CitedText above it
+}
+
+export const CitationList: React.FC<CitationListProps> = ({ citations, sources, onOpen, numbered = false }) => {
+    if (citations.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+            {citations.map((citation, i) => (
+                <button
+                    key={citation.kind === 'source' ? citation.chunkId : citation.url}
+                    onClick={() => onOpen(citation)}
+                    title={citation.kind === 'web' ? citation.url : 'Open the cited passage'}
+                    className="max-w-full flex items-center gap-1 px-2 py-0.5 rounded bg-skin-surface border border-skin-border text-[10px] text-skin-muted hover:text-skin-text hover:border-skin-accent transition-colors"
+                >
+                    {numbered && <span className="font-bold text-skin-accent">{i + 1}</span>}
+                    <span className="truncate">{citationLabel(citation, sources)}</span>
+                    {citation.kind === 'web' && <span aria-hidden>↗</span>}
+                </button>
+            ))}
+        </div>
+    );
+};
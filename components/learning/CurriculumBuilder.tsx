@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { LearningSource, PodcastEpisode, PodcastBlueprint, PodcastType } from '../../types';
+import { MaintenanceModeError } from '../../services/MaintenanceGate';
 import { useLearningAI } from '../../hooks/useLearningAI';
 
 interface PodcastGeneratorProps {
@@ -29,7 +30,14 @@ export const CurriculumBuilder: React.FC<PodcastGeneratorProps> = ({ sources, on
       setError(null);
       setStatus('Designing curriculum blueprint...');
       
-      const bp = await generateBlueprint(topic, audience, sources);
+      let bp: PodcastBlueprint | null;
+      try {
+          bp = await generateBlueprint(topic, audience, sources);
+      } catch (e) {
+          setError(e instanceof MaintenanceModeError ? e.message : "Failed to generate blueprint. Try refining your topic.");
+          setStatus('');
+          return;
+      }
       if (bp) {
           setBlueprint(bp);
           setStatus('');
@@ -140,7 +148,7 @@ export const CurriculumBuilder: React.FC<PodcastGeneratorProps> = ({ sources, on
         onPodcastGenerated(episode);
     } catch (e) {
         console.error(e);
-        setError("An unexpected error occurred.");
+        setError(e instanceof MaintenanceModeError ? e.message : "An unexpected error occurred.");
         setStatus('');
     }
   };
@@ -1,40 +1,81 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { PodcastEpisode, LearningSource } from '../../types';
 import { SourceIntake } from './SourceIntake';
 import { CurriculumBuilder as PodcastGenerator } from './CurriculumBuilder'; 
 import { LessonPlayer as PodcastPlayer } from './LessonPlayer'; 
 import { useLearningAI } from '../../hooks/useLearningAI';
+import { formatTimestamp } from '../../utils/transcripts';
 
-export const LearningMode: React.FC = () => {
+// Source excerpts in the lesson tutor's system instruction
+const EPISODE_CONTEXT_TOKENS = 5000;
+
+interface LearningModeProps {
+  episodes: PodcastEpisode[]; // Owned by App, so the open_learning_episode tool works from any tab
+  onEpisodeGenerated: (episode: PodcastEpisode) => void;
+  requestedEpisode: PodcastEpisode | null; // Opened by voice; played as soon as this view is up
+  onEpisodeOpened: () => void;
+}
+
+export const LearningMode: React.FC<LearningModeProps> = ({ episodes, onEpisodeGenerated, requestedEpisode, onEpisodeOpened }) => {
   const [view, setView] = useState<'dashboard' | 'intake' | 'generator' | 'player'>('dashboard');
   const [sources, setSources] = useState<LearningSource[]>([]);
-  const [episodes, setEpisodes] = useState<PodcastEpisode[]>([]);
   const [activeEpisode, setActiveEpisode] = useState<PodcastEpisode | null>(null);
   
-  const { chatWithSources } = useLearningAI();
+  const [episodeContext, setEpisodeContext] = useState('');
+  
+  const { chatWithSources, retrieveSourceContext } = useLearningAI();
 
   const handleSourceAdd = (source: LearningSource) => {
-    setSources([...sources, source]);
+    setSources(prev => [...prev, source]);
     setView('dashboard');
   };
 
+  // Extraction (e.g. PDF) finishes after intake has closed, so updates go by id
+  const handleSourceUpdate = (id: string, updates: Partial<LearningSource>) => {
+    setSources(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  const readySources = sources.filter(s => s.status === 'ready');
+
   const handlePodcastGenerated = (episode: PodcastEpisode) => {
-    setEpisodes([episode, ...episodes]);
+    onEpisodeGenerated(episode);
+    setEpisodeContext('');
     setActiveEpisode(episode);
     setView('player');
   };
 
   const playEpisode = (episode: PodcastEpisode) => {
+    setEpisodeContext('');
     setActiveEpisode(episode);
     setView('player');
   };
 
-  // Helper to get raw text for the active episode's context
-  const getEpisodeContext = (episode: PodcastEpisode): string => {
-      const relevantSources = sources.filter(s => episode.sourceIds.includes(s.id));
-      return relevantSources.map(s => `[${s.title}]: ${s.content.substring(0, 5000)}`).join('\n\n');
-  };
+  useEffect(() => {
+      if (!requestedEpisode) return;
+      playEpisode(requestedEpisode);
+      onEpisodeOpened();
+  }, [requestedEpisode]);
+
+  // Changes only when one of the episode's own sources does, not on every progress update of another source
+  const episodeSourcesKey: string = useMemo(() => activeEpisode
+      ? sources.filter(s => activeEpisode.sourceIds.includes(s.id)).map(s => `${s.id}:${s.content.length}:${s.status}`).join('|')
+      : '', [activeEpisode, sources]);
+
+  // Excerpts of the active episode's sources for the tutor and chapter generation, picked for the episode's chapters
+  useEffect(() => {
+      if (!activeEpisode) return;
+      let cancelled = false;
+      const relevantSources = sources.filter(s => activeEpisode.sourceIds.includes(s.id));
+      const queries = [
+          activeEpisode.topic,
+          ...(activeEpisode.blueprint?.chapters.map(ch => `${ch.title} ${ch.keyPoints.join(' ')}`) ?? [])
+      ];
+      retrieveSourceContext('Lesson tutor', queries, relevantSources, EPISODE_CONTEXT_TOKENS)
+          .then(context => { if (!cancelled) setEpisodeContext(context); })
+          .catch(e => console.error('Episode context retrieval failed', e));
+      return () => { cancelled = true; };
+  }, [activeEpisode, episodeSourcesKey]);
 
   return (
     <div className="h-full flex flex-col p-4 md:p-6 overflow-hidden relative">
@@ -58,7 +99,7 @@ export const LearningMode: React.FC = () => {
                     </button>
                     <button 
                         onClick={() => setView('generator')}
-                        disabled={sources.length === 0}
+                        disabled={readySources.length === 0}
                         className="px-4 py-2 btn-glow text-white text-xs font-bold uppercase tracking-wider rounded-lg shadow-lg shadow-skin-accent-dim transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
@@ -81,11 +122,18 @@ export const LearningMode: React.FC = () => {
                         <div className="glass-panel p-5 rounded-2xl border border-skin-border relative overflow-hidden group">
                             <h3 className="text-sm font-bold text-skin-muted uppercase tracking-widest mb-1">Knowledge Base</h3>
                             <div className="text-3xl font-bold text-skin-text mb-4">{sources.length} <span className="text-base text-skin-muted font-normal">sources</span></div>
-                            <div className="space-y-2">
-                                {sources.slice(0, 3).map(s => (
-                                    <div key={s.id} className="text-xs text-skin-text flex items-center gap-2 truncate">
-                                        <div className="w-1.5 h-1.5 bg-green-400 rounded-full"></div>
-                                        {s.title}
+                            <div className="space-y-2 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+                                {sources.map(s => (
+                                    <div key={s.id} className="text-xs text-skin-text truncate" title={s.statusMessage}>
+                                        <div className="flex items-center gap-2 truncate">
+                                            <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${s.status === 'ready' ? 'bg-green-400' : s.status === 'processing' ? 'bg-yellow-400 animate-pulse' : 'bg-red-500'}`}></div>
+                                            {s.title}
+                                            {s.pageCount && <span className="text-skin-muted">· {s.pageCount} pp.</span>}
+                                            {s.transcript && s.transcript.length > 0 && <span className="text-skin-muted">· {formatTimestamp(s.transcript[s.transcript.length - 1].end ?? s.transcript[s.transcript.length - 1].start)}</span>}
+                                        </div>
+                                        {s.status !== 'ready' && s.statusMessage && (
+                                            <div className={`pl-3.5 text-[10px] truncate ${s.status === 'error' ? 'text-red-400' : 'text-skin-muted'}`}>{s.statusMessage}</div>
+                                        )}
                                     </div>
                                 ))}
                                 {sources.length === 0 && <div className="text-xs text-skin-muted italic">No sources connected</div>}
@@ -137,6 +185,7 @@ export const LearningMode: React.FC = () => {
                 <div className="max-w-xl mx-auto pt-10">
                     <SourceIntake 
                         onAddSource={handleSourceAdd}
+                        onUpdateSource={handleSourceUpdate}
                         onCancel={() => setView('dashboard')}
                     />
                 </div>
@@ -145,7 +194,7 @@ export const LearningMode: React.FC = () => {
             {view === 'generator' && (
                 <div className="pt-6">
                     <PodcastGenerator 
-                        sources={sources}
+                        sources={readySources}
                         onPodcastGenerated={handlePodcastGenerated}
                         onCancel={() => setView('dashboard')}
                     />
@@ -155,11 +204,12 @@ export const LearningMode: React.FC = () => {
             {view === 'player' && activeEpisode && (
                 <PodcastPlayer 
                     episode={activeEpisode}
-                    sourceContext={getEpisodeContext(activeEpisode)}
+                    sourceContext={episodeContext}
+                    sources={sources.filter(s => activeEpisode.sourceIds.includes(s.id))}
                     onBack={() => setView('dashboard')}
-                    onAskQuestion={async (question) => {
+                    onAskQuestion={async (question, history) => {
                          const relevantSources = sources.filter(s => activeEpisode.sourceIds.includes(s.id));
-                         return await chatWithSources(question, relevantSources, []);
+                         return await chatWithSources(question, relevantSources, history);
                     }}
                 />
             )}
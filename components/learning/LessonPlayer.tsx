@@ -1,6 +1,6 @@
 
 import React, { useEffect, useState, useRef, useMemo, useCallback } from 'react';
-import { PodcastEpisode, PodcastChapter, ConnectionState } from '../../types';
+import { PodcastEpisode, PodcastChapter, ConnectionState, LearningSource, Citation, GroundedAnswer } from '../../types';
 import { base64ToFloat32, createAudioBuffer } from '../../utils/audioUtils';
 import { useGeminiLive } from '../../hooks/useGeminiLive';
 import { Visualizer } from '../Visualizer';
@@ -10,6 +10,10 @@ import { ProducerPanel } from '../producer/ProducerPanel';
 import { ChapterManager } from './ChapterManager';
 import { AudioDashboard } from '../diagnostics/AudioDashboard';
 import { useLearningAI } from '../../hooks/useLearningAI';
+import { loadAudioDevicePreferences } from '../../utils/audioDevices';
+import { MaintenanceModeError } from '../../services/MaintenanceGate';
+import { CitedText, CitationList } from './Citations';
+import { SourceViewer } from './SourceViewer';
 
 const formatTime = (seconds: number) => {
   if (!seconds || isNaN(seconds)) return "0:00";
@@ -18,11 +22,22 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+export type TutorTurn = { role: 'user' | 'model', text: string };
+
 interface PodcastPlayerProps {
   episode: PodcastEpisode;
   sourceContext: string;
+  sources: LearningSource[]; // The episode's sources, for citation labels and the passage viewer
   onBack: () => void;
-  onAskQuestion?: (question: string) => Promise<string | null>;
+  onAskQuestion?: (question: string, history: TutorTurn[]) => Promise<GroundedAnswer | null>;
+}
+
+interface QuestionEntry {
+  id: string;
+  question: string;
+  status: 'pending' | 'answered' | 'error';
+  answer?: GroundedAnswer;
+  error?: string;
 }
 
 // Wrapper to provide ProducerContext
@@ -32,7 +47,7 @@ export const LessonPlayer: React.FC<PodcastPlayerProps> = (props) => (
     </ProducerProvider>
 );
 
-const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceContext, onBack, onAskQuestion }) => {
+const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceContext, sources, onBack, onAskQuestion }) => {
   // --- Podcast Audio State ---
   const [isPlaying, setIsPlaying] = useState(false);
   // Ref to track playing state without triggering re-renders in callbacks
@@ -45,9 +60,14 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
   
   // --- View State ---
   const [showStudyPanel, setShowStudyPanel] = useState(false);
-  const [activeTab, setActiveTab] = useState<'chapters' | 'producer' | 'glossary'>('chapters');
+  const [activeTab, setActiveTab] = useState<'chapters' | 'producer' | 'glossary' | 'ask' | 'script'>('chapters');
   const [showDiagnostics, setShowDiagnostics] = useState(false);
   
+  // --- Q&A State ---
+  const [questions, setQuestions] = useState<QuestionEntry[]>([]);
+  const [questionDraft, setQuestionDraft] = useState('');
+  const [viewerCitation, setViewerCitation] = useState<Extract<Citation, { kind: 'source' }> | null>(null);
+  
   // --- Audio Refs (Podcast) ---
   const audioContextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null); // New Gain Node for Fading
@@ -60,12 +80,13 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
   // Services
   const sessionManager = useRef(AudioSessionManager.getInstance()).current;
   const { generateChapters } = useLearningAI();
+  const [audioDevices] = useState(loadAudioDevicePreferences); // Same devices as the Live tab
 
   // --- Voice Tutor Hook (Live API) ---
   const tutorSystemInstruction = `
     You are an AI Tutor discussing a specific lesson titled "${episode.title}".
     SOURCE MATERIAL FOR LESSON:
-    ${sourceContext.substring(0, 20000)}
+    ${sourceContext}
   `;
 
   const { 
@@ -76,7 +97,9 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
     transcripts: liveTranscripts
   } = useGeminiLive({
     systemInstruction: tutorSystemInstruction,
-    voiceName: 'Kore'
+    voiceName: 'Kore',
+    inputDeviceId: audioDevices.inputId,
+    outputDeviceId: audioDevices.outputId
   });
 
   // --- Audio Implementation ---
@@ -234,6 +257,14 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
         pause: pauseAudioInternal,
         getIsPlaying: () => isPlayingRef.current, 
         getCurrentTime: () => pauseTimeRef.current,
+        getDuration: () => bufferRef.current?.duration || 0,
+        seekTo: (seconds: number) => {
+            if (!bufferRef.current) return;
+            pauseTimeRef.current = Math.max(0, Math.min(seconds, bufferRef.current.duration));
+            setCurrentTime(pauseTimeRef.current);
+            setProgress((pauseTimeRef.current / bufferRef.current.duration) * 100);
+            if (isPlayingRef.current) playAudioInternal();
+        },
         fadeTo: async (volume: number, duration: number) => {
             if (gainNodeRef.current && audioContextRef.current && audioContextRef.current.state === 'running') {
                 const ctx = audioContextRef.current;
@@ -297,14 +328,57 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
 
   const handleGenerateChapters = async () => {
       if (!bufferRef.current) return;
-      const newChapters = await generateChapters(sourceContext, bufferRef.current.duration);
-      if (newChapters.length > 0) setChapters(newChapters);
+      try {
+          const newChapters = await generateChapters(sourceContext, bufferRef.current.duration);
+          if (newChapters.length > 0) setChapters(newChapters);
+      } catch (e) {
+          // Only MaintenanceModeError escapes the hook; the gate has already logged the refusal
+          console.warn("Chapter generation refused:", e);
+      }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const question = questionDraft.trim();
+      if (!question || !onAskQuestion) return;
+
+      // Earlier answers without their "[1]" markers, so follow-up questions have context
+      const history: TutorTurn[] = questions
+          .filter(q => q.answer)
+          .flatMap(q => [
+              { role: 'user' as const, text: q.question },
+              { role: 'model' as const, text: q.answer!.text.replace(/\s?\[\d+(?:,\s*\d+)*\]/g, '') }
+          ]);
+      const id = Date.now().toString();
+      setQuestionDraft('');
+      setQuestions(prev => [...prev, { id, question, status: 'pending' }]);
+
+      try {
+          const answer = await onAskQuestion(question, history);
+          setQuestions(prev => prev.map(q => q.id !== id ? q : answer
+              ? { ...q, status: 'answered', answer }
+              : { ...q, status: 'error', error: 'No answer came back. Try rephrasing the question.' }));
+      } catch (err) {
+          console.warn("Question failed:", err);
+          setQuestions(prev => prev.map(q => q.id !== id ? q : {
+              ...q,
+              status: 'error',
+              error: err instanceof MaintenanceModeError ? err.message : 'The tutor could not answer right now.'
+          }));
+      }
+  };
+
+  // Source passages open in the viewer; search results in a new tab
+  const openCitation = (citation: Citation) => {
+      if (citation.kind === 'web') window.open(citation.url, '_blank', 'noopener,noreferrer');
+      else setViewerCitation(citation);
   };
 
   return (
     <div className={`h-[100dvh] w-full flex flex-col md:flex-row gap-4 md:gap-6 p-2 md:p-6 max-w-7xl mx-auto relative overflow-hidden transition-all duration-500 ${showStudyPanel ? '' : 'items-center justify-center'}`}>
       
       {showDiagnostics && <AudioDashboard onClose={() => setShowDiagnostics(false)} />}
+      {viewerCitation && <SourceViewer citation={viewerCitation} sources={sources} onClose={() => setViewerCitation(null)} />}
 
       {/* Mobile Top Bar */}
       {!showStudyPanel && (
@@ -460,6 +534,20 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
                 >
                     Terms
                 </button>
+                {onAskQuestion && (
+                    <button 
+                        onClick={() => setActiveTab('ask')}
+                        className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${activeTab === 'ask' ? 'text-skin-text border-b-2 border-skin-accent' : 'text-skin-muted hover:text-skin-text'}`}
+                    >
+                        Ask
+                    </button>
+                )}
+                <button 
+                    onClick={() => setActiveTab('script')}
+                    className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider ${activeTab === 'script' ? 'text-skin-text border-b-2 border-skin-secondary' : 'text-skin-muted hover:text-skin-text'}`}
+                >
+                    Script
+                </button>
             </div>
 
             {/* Content Container */}
@@ -497,6 +585,60 @@ const LessonPlayerInternal: React.FC<PodcastPlayerProps> = ({ episode, sourceCon
                         ))}
                     </div>
                 )}
+
+                {activeTab === 'ask' && onAskQuestion && (
+                    <div className="h-full flex flex-col">
+                        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                            {questions.length === 0 && (
+                                <p className="text-xs text-skin-muted text-center py-8">Ask anything about this lesson. Answers link to the passages they come from.</p>
+                            )}
+                            {questions.map(q => (
+                                <div key={q.id} className="space-y-2">
+                                    <div className="ml-auto w-fit max-w-[85%] bg-skin-accent-dim text-skin-text text-xs px-3 py-2 rounded-xl">{q.question}</div>
+                                    {q.status === 'pending' && <div className="text-xs text-skin-muted animate-pulse">Checking the sources...</div>}
+                                    {q.status === 'error' && <div className="text-xs text-red-400">{q.error}</div>}
+                                    {q.answer && (
+                                        <div className="bg-skin-surface border border-skin-border rounded-xl px-3 py-2 text-xs text-skin-text leading-relaxed">
+                                            <div className="whitespace-pre-wrap">
+                                                <CitedText text={q.answer.text} citations={q.answer.citations} onOpen={openCitation} />
+                                            </div>
+                                            <CitationList citations={q.answer.citations} sources={sources} onOpen={openCitation} numbered />
+                                            {q.answer.searched && <div className="text-[9px] uppercase font-bold tracking-wider text-skin-muted mt-2">Includes Google Search results</div>}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <form onSubmit={handleAsk} className="p-3 border-t border-skin-border bg-skin-surface flex gap-2 shrink-0">
+                            <input
+                                type="text"
+                                value={questionDraft}
+                                onChange={e => setQuestionDraft(e.target.value)}
+                                placeholder="Ask about this lesson..."
+                                className="flex-1 glass-input rounded-lg px-3 py-2 text-xs focus:ring-1 focus:ring-skin-accent"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!questionDraft.trim() || questions.some(q => q.status === 'pending')}
+                                className="px-4 py-2 btn-glow text-white text-xs font-bold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Ask
+                            </button>
+                        </form>
+                    </div>
+                )}
+
+                {activeTab === 'script' && (
+                    <div className="p-4 md:p-6 space-y-4 pb-20">
+                        {episode.script.map((line, i) => (
+                            <div key={i} className="text-xs">
+                                <span className={`text-[10px] font-bold uppercase tracking-wider ${line.speaker === 'Host' ? 'text-skin-accent' : 'text-skin-secondary'}`}>{line.speaker}</span>
+                                <p className="text-skin-text leading-relaxed mt-0.5">{line.text}</p>
+                                {line.citations && <CitationList citations={line.citations} sources={sources} onOpen={openCitation} />}
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
       )}
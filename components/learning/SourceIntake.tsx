@@ -1,33 +1,134 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { LearningSource } from '../../types';
+import { PdfExtractionError } from '../../utils/pdfText';
+import { ZipError } from '../../utils/zip';
+import { acceptedSourceTypes, findSourceParser, parseHtmlDocument, SourceParseError, SourceParser } from '../../utils/sourceParsers';
+import { useLearningAI } from '../../hooks/useLearningAI';
+import { MaintenanceModeError } from '../../services/MaintenanceGate';
+
+type IntakeType = 'text' | 'url' | 'files';
 
 interface SourceIntakeProps {
   onAddSource: (source: LearningSource) => void;
+  // Later status changes for a source added while it was still processing
+  onUpdateSource: (id: string, updates: Partial<LearningSource>) => void;
   onCancel: () => void;
 }
 
-export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onCancel }) => {
-  const [type, setType] = useState<'text' | 'url'>('text');
+// Errors whose message is fit to show as the source's status
+const isReportable = (err: unknown): err is Error =>
+  err instanceof SourceParseError || err instanceof PdfExtractionError || err instanceof ZipError || err instanceof MaintenanceModeError;
+
+export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onUpdateSource, onCancel }) => {
+  const [type, setType] = useState<IntakeType>('text');
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [url, setUrl] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { transcribeMedia } = useLearningAI();
+
+  const addFiles = (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    setType('files');
+    setFiles(prev => [...prev, ...Array.from(list).filter(f => !prev.some(p => p.name === f.name && p.size === f.size))]);
+  };
+
+  // Each file becomes its own source, listed straight away as 'processing'; parsing keeps running after intake closes
+  const ingestFile = async (file: File, parser: SourceParser, id: string) => {
+    const isTranscript = parser.sourceType === 'media';
+    onAddSource({
+      id,
+      title: file.name.replace(/\.[^.]+$/, ''),
+      type: isTranscript && url ? 'youtube' : parser.sourceType,
+      content: '',
+      url: isTranscript && url ? url : undefined,
+      tags: [],
+      createdAt: new Date(),
+      status: 'processing',
+      statusMessage: 'Reading file…'
+    });
+
+    try {
+      const parsed = await parser.parse(file, {
+        report: message => onUpdateSource(id, { statusMessage: message }),
+        transcribeMedia
+      });
+      onUpdateSource(id, {
+        ...(parsed.title ? { title: parsed.title } : {}),
+        content: parsed.content,
+        outline: parsed.outline,
+        pageCount: parsed.pageCount,
+        transcript: parsed.transcript,
+        status: 'ready',
+        statusMessage: undefined
+      });
+    } catch (err) {
+      console.error(`Ingesting ${file.name} failed`, err);
+      onUpdateSource(id, { status: 'error', statusMessage: isReportable(err) ? err.message : `Could not read ${file.name}` });
+    }
+  };
+
+  // Most sites block cross-origin reads; those stay a reference the tutor can web-search
+  const ingestUrl = async (id: string) => {
+    onAddSource({
+      id,
+      title: title || url,
+      type: 'url',
+      content: '',
+      url,
+      tags: [],
+      createdAt: new Date(),
+      status: 'processing',
+      statusMessage: 'Fetching page…'
+    });
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok || !/html/.test(response.headers.get('content-type') ?? '')) throw new Error(`HTTP ${response.status}`);
+      const parsed = parseHtmlDocument(await response.text());
+      if (!parsed.content) throw new Error('No readable content');
+      onUpdateSource(id, {
+        ...(!title && parsed.title ? { title: parsed.title } : {}),
+        content: parsed.content,
+        outline: parsed.outline,
+        status: 'ready',
+        statusMessage: undefined
+      });
+    } catch (err) {
+      console.warn(`Could not fetch ${url}; keeping it as a reference`, err);
+      onUpdateSource(id, {
+        content: `Reference URL: ${url}`,
+        status: 'ready',
+        statusMessage: 'Page could not be fetched; stored as a reference URL'
+      });
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // For URL types, if content is empty, use the URL as content so the AI has something to reference
-    let finalContent = content;
-    if (type === 'url' && !finalContent) {
-        finalContent = `Reference URL: ${url}`;
+    const batch = Date.now();
+
+    if (type === 'files') {
+      files.forEach((file, i) => {
+        const parser = findSourceParser(file);
+        if (parser) ingestFile(file, parser, `${batch}-${i}`);
+      });
+      return;
+    }
+
+    if (type === 'url') {
+      ingestUrl(batch.toString());
+      return;
     }
 
     const newSource: LearningSource = {
-      id: Date.now().toString(),
-      title: title || (type === 'url' ? url : 'Untitled Source'),
-      type: type as any,
-      content: finalContent,
-      url: type === 'url' ? url : undefined,
+      id: batch.toString(),
+      title: title || 'Untitled Source',
+      type: 'text',
+      content,
       tags: [],
       createdAt: new Date(),
       status: 'ready'
@@ -35,8 +136,16 @@ export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onCance
     onAddSource(newSource);
   };
 
+  const supportedCount = files.filter(f => findSourceParser(f)).length;
+  const hasMedia = files.some(f => findSourceParser(f)?.sourceType === 'media');
+
   return (
-    <div className="glass-panel p-6 rounded-2xl border border-skin-border animate-in zoom-in-95 duration-200">
+    <div
+      className="glass-panel p-6 rounded-2xl border border-skin-border animate-in zoom-in-95 duration-200"
+      onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+      onDrop={e => { e.preventDefault(); setIsDragging(false); addFiles(e.dataTransfer.files); }}
+    >
       <h3 className="text-lg font-bold text-skin-text mb-4 flex items-center gap-2">
         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-skin-accent">
             <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v6m3-3H9m12 0a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -45,39 +154,99 @@ export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onCance
       </h3>
 
       <div className="flex gap-4 mb-6">
-        <button 
+        <button
           type="button"
           onClick={() => setType('text')}
           className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${type === 'text' ? 'bg-skin-accent-dim text-skin-accent border border-skin-accent' : 'bg-skin-surface text-skin-muted hover:bg-skin-surface-hover'}`}
         >
           Paste Text
         </button>
-        <button 
+        <button
           type="button"
           onClick={() => setType('url')}
           className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${type === 'url' ? 'bg-skin-accent-dim text-skin-accent border border-skin-accent' : 'bg-skin-surface text-skin-muted hover:bg-skin-surface-hover'}`}
         >
           Web URL
         </button>
+        <button
+          type="button"
+          onClick={() => setType('files')}
+          className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${type === 'files' ? 'bg-skin-accent-dim text-skin-accent border border-skin-accent' : 'bg-skin-surface text-skin-muted hover:bg-skin-surface-hover'}`}
+        >
+          Upload Files
+        </button>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label className="block text-xs font-bold text-skin-muted uppercase tracking-wider mb-1">Title</label>
-          <input 
-            type="text" 
-            required
-            value={title}
-            onChange={e => setTitle(e.target.value)}
-            className="w-full glass-input rounded-lg px-4 py-2 text-sm focus:ring-1 focus:ring-skin-accent"
-            placeholder="e.g. Q3 Compliance Handbook"
-          />
-        </div>
+        {type !== 'files' && (
+          <div>
+            <label className="block text-xs font-bold text-skin-muted uppercase tracking-wider mb-1">Title</label>
+            <input
+              type="text"
+              required={type === 'text'}
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              className="w-full glass-input rounded-lg px-4 py-2 text-sm focus:ring-1 focus:ring-skin-accent"
+              placeholder={type === 'url' ? 'Defaults to the page title' : 'e.g. Q3 Compliance Handbook'}
+            />
+          </div>
+        )}
+
+        {type === 'files' ? (
+          <div className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={acceptedSourceTypes()}
+              className="hidden"
+              onChange={e => { addFiles(e.target.files); e.target.value = ''; }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className={`w-full py-8 rounded-xl border-2 border-dashed text-sm transition-colors ${isDragging ? 'border-skin-accent bg-skin-accent-dim text-skin-accent' : 'border-skin-border text-skin-muted hover:border-skin-muted'}`}
+            >
+              Drop files here or click to choose
+              <span className="block text-[10px] mt-1">PDF, Word, EPUB, Markdown, HTML, text, captions (.vtt/.srt), audio and video</span>
+            </button>
+
+            {files.length > 0 && (
+              <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {files.map((file, i) => {
+                  const parser = findSourceParser(file);
+                  return (
+                    <li key={`${file.name}-${file.size}`} className="flex items-center gap-2 text-xs bg-skin-surface rounded-lg px-3 py-2">
+                      <span className="flex-1 truncate text-skin-text">{file.name}</span>
+                      <span className={parser ? 'text-skin-muted' : 'text-red-400'}>{parser ? parser.label : 'Unsupported'}</span>
+                      <button type="button" onClick={() => setFiles(prev => prev.filter((_, j) => j !== i))} className="text-skin-muted hover:text-skin-text" aria-label={`Remove ${file.name}`}>✕</button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
 
-        {type === 'text' ? (
+            {hasMedia && (
+              <div>
+                <label className="block text-xs font-bold text-skin-muted uppercase tracking-wider mb-1">Original Video URL (optional)</label>
+                <input
+                  type="url"
+                  value={url}
+                  onChange={e => setUrl(e.target.value)}
+                  className="w-full glass-input rounded-lg px-4 py-2 text-sm focus:ring-1 focus:ring-skin-accent"
+                  placeholder="https://www.youtube.com/watch?v=..."
+                />
+              </div>
+            )}
+
+            <p className="text-[10px] text-skin-muted">
+              Each file becomes its own source and is processed in your browser (audio and video are transcribed by Gemini). PDFs keep "p. 12" page markers and transcripts keep "12:34" timestamps for citations. Scanned PDFs need OCR first.
+            </p>
+          </div>
+        ) : type === 'text' ? (
           <div>
             <label className="block text-xs font-bold text-skin-muted uppercase tracking-wider mb-1">Content</label>
-            <textarea 
+            <textarea
               required
               value={content}
               onChange={e => setContent(e.target.value)}
@@ -88,8 +257,8 @@ export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onCance
         ) : (
           <div>
              <label className="block text-xs font-bold text-skin-muted uppercase tracking-wider mb-1">URL</label>
-             <input 
-                type="url" 
+             <input
+                type="url"
                 required
                 value={url}
                 onChange={e => setUrl(e.target.value)}
@@ -97,24 +266,25 @@ export const SourceIntake: React.FC<SourceIntakeProps> = ({ onAddSource, onCance
                 placeholder="https://..."
              />
              <p className="text-[10px] text-skin-muted mt-2">
-               Note: In this demo environment, URLs are stored as references. For full analysis, please paste the text content directly above.
+               The page's main content is extracted when the site allows it. Otherwise the URL is stored as a reference and the tutor searches the web for answers; paste the text for full analysis.
              </p>
           </div>
         )}
 
         <div className="flex gap-3 justify-end pt-2">
-            <button 
-              type="button" 
+            <button
+              type="button"
               onClick={onCancel}
               className="px-4 py-2 text-sm text-skin-muted hover:text-skin-text"
             >
                 Cancel
             </button>
-            <button 
-              type="submit" 
-              className="px-6 py-2 btn-glow text-white text-sm font-bold rounded-lg shadow-lg transition-all"
+            <button
+              type="submit"
+              disabled={type === 'files' && supportedCount === 0}
+              className="px-6 py-2 btn-glow text-white text-sm font-bold rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-                Add Source
+                {type === 'files' && supportedCount > 1 ? `Add ${supportedCount} Sources` : 'Add Source'}
             </button>
         </div>
       </form>
@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Citation, LearningSource } from '../../types';
+import { SourceRetriever } from '../../services/SourceRetriever';
+import { citationLabel, citationMediaUrl } from '../../utils/citations';
+import { formatTimestamp } from '../../utils/transcripts';
+
+// Chunks cut long paragraphs at sentences, so a cited line may only be part of a source line
+const MIN_PARTIAL_MATCH = 40;
+
+interface SourceViewerProps {
+    citation: Extract<Citation, { kind: 'source' }>;
+    sources: LearningSource[];
+    onClose: () => void;
+}
+
+export const SourceViewer: React.FC<SourceViewerProps> = ({ citation, sources, onClose }) => {
+    const source = sources.find(s => s.id === citation.sourceId);
+    const firstMatchRef = useRef<HTMLDivElement>(null);
+
+    const lines: string[] = useMemo(() => source?.content.split('\n') ?? [], [source]);
+
+    // Lines of the cited chunk; when the source changed since the answer, fall back to its page / timestamp anchor
+    const cited: Set<number> = useMemo(() => {
+        if (!source) return new Set<number>();
+        const chunk = SourceRetriever.getInstance().getChunks(source).find(c => c.id === citation.chunkId);
+        const matches = new Set<number>();
+        if (chunk) {
+            const chunkLines = chunk.text.split('\n').map(l => l.trim()).filter(Boolean);
+            const exact = new Set(chunkLines);
+            lines.forEach((line, i) => {
+                const text = line.trim();
+                if (text && (exact.has(text) || chunkLines.some(l => l.length >= MIN_PARTIAL_MATCH && text.includes(l)))) matches.add(i);
+            });
+        }
+        if (matches.size === 0) {
+            const anchor = citation.page ? `[p. ${citation.page}]` : citation.timestamp !== undefined ? `[${formatTimestamp(citation.timestamp)}]` : null;
+            const at = anchor ? lines.findIndex(l => l.trim().startsWith(anchor)) : -1;
+            if (at !== -1) matches.add(at);
+        }
+        return matches;
+    }, [source, citation, lines]);
+
+    useEffect(() => {
+        firstMatchRef.current?.scrollIntoView({ block: 'center' });
+    }, [cited]);
+
+    const firstMatch = Math.min(...Array.from(cited));
+    const mediaUrl = citationMediaUrl(citation, source);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-in fade-in" onClick={onClose}>
+            <div className="glass-panel border border-skin-border rounded-2xl w-full max-w-3xl h-[80vh] flex flex-col shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-skin-border bg-skin-surface flex justify-between items-center gap-4">
+                    <div className="min-w-0">
+                        <h3 className="text-sm font-bold text-skin-text truncate">{citationLabel(citation, sources)}</h3>
+                        {mediaUrl && (
+                            <a href={mediaUrl} target="_blank" rel="noopener noreferrer" className="text-[10px] text-skin-accent hover:underline">
+                                Watch from {formatTimestamp(citation.timestamp ?? 0)} ↗
+                            </a>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="text-skin-muted hover:text-skin-text text-xs font-bold uppercase">Close</button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 text-sm text-skin-text leading-relaxed">
+                    {!source ? (
+                        <p className="text-skin-muted italic">This source has been removed.</p>
+                    ) : (
+                        <>
+                            {cited.size === 0 && <p className="text-[10px] text-skin-muted mb-4">The cited passage could not be located; the source may have changed since this answer.</p>}
+                            {lines.map((line, i) => (
+                                <div
+                                    key={i}
+                                    ref={i === firstMatch ? firstMatchRef : undefined}
+                                    className={`whitespace-pre-wrap min-h-[0.75rem] ${cited.has(i) ? 'bg-skin-accent-dim border-l-2 border-skin-accent pl-2' : 'pl-2.5'} ${/^#{1,6}\s/.test(line) ? 'font-bold' : ''}`}
+                                >
+                                    {line}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
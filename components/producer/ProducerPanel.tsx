@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { useProducer } from '../../context/ProducerContext';
 import { CallRequest, TranscriptionItem } from '../../types';
+import { TranscriptExportMenu } from '../TranscriptExportMenu';
 
 interface ProducerPanelProps {
     startAudio: () => Promise<void>;
@@ -119,12 +120,20 @@ export const ProducerPanel: React.FC<ProducerPanelProps> = ({ startAudio, stopAu
                                         <div className="text-[10px] text-red-400 font-bold uppercase tracking-wider mb-0.5">ON AIR</div>
                                         <div className="text-sm font-bold text-white">{activeCall.callerName}</div>
                                     </div>
-                                    <button 
-                                        onClick={() => endActiveCall(stopAudio)}
-                                        className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-[10px] font-bold uppercase rounded shadow-lg"
-                                    >
-                                        End Call
-                                    </button>
+                                    <div className="flex items-center gap-2">
+                                        <TranscriptExportMenu
+                                            variant="console"
+                                            items={liveTranscripts}
+                                            filenameBase={`call-${activeCall.callerName.replace(/\W+/g, '-').toLowerCase()}-${activeCall.id}`}
+                                            options={{ title: `Call: ${activeCall.callerName} (${activeCall.topic})`, speakerLabels: { user: 'Caller', assistant: 'AI Host' } }}
+                                        />
+                                        <button 
+                                            onClick={() => endActiveCall(stopAudio)}
+                                            className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-[10px] font-bold uppercase rounded shadow-lg"
+                                        >
+                                            End Call
+                                        </button>
+                                    </div>
                                 </div>
 
                                 {/* Live Transcript Stream */}
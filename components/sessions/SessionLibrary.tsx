@@ -0,0 +1,103 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SessionRecording } from '../../types';
+import { SessionLibrary as SessionStore } from '../../services/SessionLibrary';
+import { SessionReplay } from './SessionReplay';
+import { downloadBlob } from '../../utils/download';
+
+interface SessionLibraryProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+    const total = Math.round(ms / 1000);
+    return `${Math.floor(total / 60)}m ${(total % 60).toString().padStart(2, '0')}s`;
+};
+
+export const SessionLibrary: React.FC<SessionLibraryProps> = ({ isOpen, onClose }) => {
+    const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        SessionStore.getInstance().list()
+            .then(list => { setRecordings(list); setError(null); })
+            .catch(e => setError(e instanceof Error ? e.message : 'Could not open the session library'));
+    }, []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        refresh();
+        return SessionStore.getInstance().subscribe(refresh);
+    }, [isOpen, refresh]);
+
+    if (!isOpen) return null;
+
+    const selected = recordings.find(r => r.id === selectedId) || null;
+
+    const handleDelete = async (recording: SessionRecording) => {
+        if (!window.confirm(`Delete "${recording.title}"? This cannot be undone.`)) return;
+        await SessionStore.getInstance().remove(recording.id);
+        if (selectedId === recording.id) setSelectedId(null);
+    };
+
+    const handleDownload = (recording: SessionRecording) => {
+        const ext = recording.mimeType.includes('mp4') ? 'm4a' : recording.mimeType.includes('ogg') ? 'ogg' : 'webm';
+        downloadBlob(recording.audio, `session-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')}.${ext}`);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[150] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div className="bg-skin-base border border-skin-border rounded-2xl w-full max-w-3xl h-[85vh] flex flex-col shadow-2xl overflow-hidden relative">
+
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-skin-border bg-skin-surface flex justify-between items-center shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-skin-text tracking-tight">Session Library</h2>
+                        <p className="text-[10px] text-skin-muted">Recordings stay in this browser. Enable "Record Sessions" on a voice profile to capture calls.</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full text-skin-muted hover:text-skin-text transition-colors">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-hidden p-6 bg-skin-base/30">
+                    {selected ? (
+                        <SessionReplay key={selected.id} recording={selected} onBack={() => setSelectedId(null)} />
+                    ) : (
+                        <div className="h-full overflow-y-auto custom-scrollbar space-y-3">
+                            {error && <div className="text-xs text-red-400">{error}</div>}
+                            {!error && recordings.length === 0 && (
+                                <div className="h-full flex flex-col items-center justify-center text-skin-muted opacity-60">
+                                    <div className="text-2xl mb-2">●</div>
+                                    <div className="text-[10px] uppercase tracking-widest">No recorded sessions</div>
+                                </div>
+                            )}
+                            {recordings.map(recording => (
+                                <div key={recording.id} className="bg-skin-surface border border-skin-border rounded-xl p-4 flex items-center gap-4">
+                                    <button onClick={() => setSelectedId(recording.id)} className="flex-1 min-w-0 text-left">
+                                        <div className="text-sm font-bold text-skin-text truncate">{recording.title}</div>
+                                        <div className="text-[10px] text-skin-muted mt-1">
+                                            {recording.profileName} · {new Date(recording.startedAt).toLocaleString()} · {formatDuration(recording.durationMs)} · {recording.transcript.length} turns
+                                        </div>
+                                    </button>
+                                    <button onClick={() => setSelectedId(recording.id)} className="px-3 py-1.5 rounded-lg bg-skin-accent text-skin-base text-[10px] font-bold uppercase tracking-widest">
+                                        Replay
+                                    </button>
+                                    <button onClick={() => handleDownload(recording)} className="px-3 py-1.5 rounded-lg border border-skin-border text-skin-muted hover:text-skin-text text-[10px] font-bold uppercase tracking-widest">
+                                        Audio
+                                    </button>
+                                    <button onClick={() => handleDelete(recording)} className="px-3 py-1.5 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 text-[10px] font-bold uppercase tracking-widest">
+                                        Delete
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SessionRecording } from '../../types';
+
+interface SessionReplayProps {
+    recording: SessionRecording;
+    onBack: () => void;
+}
+
+const formatClock = (ms: number) => {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+export const SessionReplay: React.FC<SessionReplayProps> = ({ recording, onBack }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const transcriptRef = useRef<HTMLDivElement>(null);
+    const graphRef = useRef<{ ctx: AudioContext; mic: GainNode; model: GainNode } | null>(null);
+    const [positionMs, setPositionMs] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [channels, setChannels] = useState({ mic: true, model: true });
+
+    const audioUrl = useMemo(() => URL.createObjectURL(recording.audio), [recording]);
+    useEffect(() => () => URL.revokeObjectURL(audioUrl), [audioUrl]);
+
+    // Recordings are stereo (mic left, model right). Split and re-center both so they can be soloed.
+    const ensureGraph = () => {
+        if (graphRef.current || !audioRef.current) return graphRef.current;
+        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const source = ctx.createMediaElementSource(audioRef.current);
+        const splitter = ctx.createChannelSplitter(2);
+        const mic = ctx.createGain();
+        const model = ctx.createGain();
+        source.connect(splitter);
+        splitter.connect(mic, 0);
+        splitter.connect(model, 1);
+        mic.connect(ctx.destination);
+        model.connect(ctx.destination);
+        graphRef.current = { ctx, mic, model };
+        return graphRef.current;
+    };
+
+    useEffect(() => () => { graphRef.current?.ctx.close(); }, []);
+
+    useEffect(() => {
+        const graph = graphRef.current;
+        if (!graph) return;
+        graph.mic.gain.value = channels.mic ? 1 : 0;
+        graph.model.gain.value = channels.model ? 1 : 0;
+    }, [channels, isPlaying]);
+
+    const activeIndex = useMemo(() => {
+        let index = -1;
+        recording.transcript.forEach((item, i) => { if (item.offsetMs <= positionMs) index = i; });
+        return index;
+    }, [recording, positionMs]);
+
+    // Keep the spoken line in view
+    useEffect(() => {
+        if (activeIndex < 0 || !transcriptRef.current) return;
+        const row = transcriptRef.current.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+        row?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const togglePlay = async () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (audio.paused) {
+            const graph = ensureGraph();
+            if (graph?.ctx.state === 'suspended') await graph.ctx.resume();
+            await audio.play();
+        } else {
+            audio.pause();
+        }
+    };
+
+    // MediaRecorder output often has no duration header, so the scrubber uses the recorded length
+    const seekTo = (ms: number) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = Math.max(0, Math.min(recording.durationMs, ms)) / 1000;
+        setPositionMs(ms);
+    };
+
+    return (
+        <div className="h-full flex flex-col gap-4">
+            <div className="flex items-center gap-3">
+                <button onClick={onBack} className="px-3 py-1.5 rounded-lg border border-skin-border text-[10px] font-bold uppercase tracking-widest text-skin-muted hover:text-skin-text">
+                    Back
+                </button>
+                <div className="min-w-0">
+                    <div className="text-sm font-bold text-skin-text truncate">{recording.title}</div>
+                    <div className="text-[10px] text-skin-muted">{recording.profileName} · {new Date(recording.startedAt).toLocaleString()}</div>
+                </div>
+            </div>
+
+            {/* Transport */}
+            <div className="bg-skin-surface border border-skin-border rounded-xl p-4 flex flex-col gap-3">
+                <audio
+                    ref={audioRef}
+                    src={audioUrl}
+                    onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onEnded={() => setIsPlaying(false)}
+                />
+                <div className="flex items-center gap-3">
+                    <button onClick={togglePlay} className="w-10 h-10 rounded-full bg-skin-accent text-skin-base flex items-center justify-center font-bold shrink-0">
+                        {isPlaying ? '❚❚' : '▶'}
+                    </button>
+                    <input
+                        type="range" min={0} max={recording.durationMs} step={100}
+                        value={Math.min(positionMs, recording.durationMs)}
+                        onChange={(e) => seekTo(parseFloat(e.target.value))}
+                        className="flex-1 accent-skin-accent"
+                    />
+                    <span className="text-[10px] font-mono text-skin-muted shrink-0">{formatClock(positionMs)} / {formatClock(recording.durationMs)}</span>
+                </div>
+                <div className="flex gap-2">
+                    {(['mic', 'model'] as const).map(channel => (
+                        <button
+                            key={channel}
+                            onClick={() => setChannels(prev => ({ ...prev, [channel]: !prev[channel] }))}
+                            className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-colors ${
+                                channels[channel] ? 'border-skin-accent text-skin-accent' : 'border-skin-border text-skin-muted line-through'
+                            }`}
+                        >
+                            {channel === 'mic' ? 'User Mic' : 'Model Voice'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Synced Transcript */}
+            <div ref={transcriptRef} className="flex-1 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                {recording.transcript.length === 0 && (
+                    <div className="text-center text-[10px] uppercase tracking-widest text-skin-muted py-8">No transcript captured</div>
+                )}
+                {recording.transcript.map((item, i) => (
+                    <button
+                        key={item.id}
+                        data-index={i}
+                        onClick={() => seekTo(item.offsetMs)}
+                        className={`w-full text-left p-3 rounded-xl border transition-colors ${
+                            i === activeIndex ? 'border-skin-accent bg-skin-accent-dim' : 'border-skin-border bg-skin-surface/50 hover:border-skin-accent/50'
+                        }`}
+                    >
+                        <div className="flex justify-between text-[9px] uppercase font-bold mb-1">
+                            <span className={item.role === 'user' ? 'text-skin-accent' : 'text-skin-secondary'}>{item.role}</span>
+                            <span className="font-mono text-skin-muted">{formatClock(item.offsetMs)}</span>
+                        </div>
+                        <div className="text-xs text-skin-text leading-relaxed">{item.text}</div>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
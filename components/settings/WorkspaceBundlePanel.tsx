@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import {
+    WORKSPACE_SECTIONS, WorkspaceBundle, WorkspaceBundleError, WorkspaceSection, WorkspaceSectionPreview, WorkspaceSnapshot,
+    createWorkspaceBundle, downloadWorkspaceBundle, parseWorkspaceBundle, previewWorkspaceImport
+} from '../../utils/workspaceBundle';
+
+interface WorkspaceBundlePanelProps {
+    snapshot: WorkspaceSnapshot;
+    // Returns the sections that were actually applied (admin config needs permission)
+    onImport: (bundle: WorkspaceBundle, sections: WorkspaceSection[]) => WorkspaceSection[];
+}
+
+const ALL_SECTIONS = WORKSPACE_SECTIONS.map(s => s.id);
+
+/** Export the workspace as a versioned JSON bundle, or import one with a per-section preview. */
+export const WorkspaceBundlePanel: React.FC<WorkspaceBundlePanelProps> = ({ snapshot, onImport }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [exportSections, setExportSections] = useState<WorkspaceSection[]>(ALL_SECTIONS);
+    const [pending, setPending] = useState<{ bundle: WorkspaceBundle; fileName: string; preview: WorkspaceSectionPreview[] } | null>(null);
+    const [importSections, setImportSections] = useState<WorkspaceSection[]>([]);
+    const [error, setError] = useState<{ message: string; issues: string[] } | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const toggle = (list: WorkspaceSection[], id: WorkspaceSection) =>
+        list.includes(id) ? list.filter(s => s !== id) : [...list, id];
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        setMessage(null);
+        try {
+            const bundle = parseWorkspaceBundle(await file.text());
+            const preview = previewWorkspaceImport(snapshot, bundle);
+            setPending({ bundle, fileName: file.name, preview });
+            // Pre-select only sections that would change anything; admin config stays opt-in
+            setImportSections(preview.filter(p => p.changes.length > 0 && p.section !== 'adminConfig').map(p => p.section));
+        } catch (e) {
+            setPending(null);
+            setError(e instanceof WorkspaceBundleError
+                ? { message: e.message, issues: e.issues }
+                : { message: 'Could not read workspace file', issues: [] });
+        }
+    };
+
+    const handleApply = () => {
+        if (!pending) return;
+        const applied = onImport(pending.bundle, importSections);
+        const skipped = importSections.filter(s => !applied.includes(s));
+        setMessage(`Imported ${applied.length} section${applied.length === 1 ? '' : 's'}${skipped.length ? `; skipped ${skipped.join(', ')} (not permitted for your role)` : ''}`);
+        setPending(null);
+    };
+
+    return (
+        <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+            <div className="glass-panel p-6 rounded-xl border border-skin-border">
+                <h3 className="text-sm font-bold text-skin-text mb-1">Export Workspace</h3>
+                <p className="text-xs text-skin-muted mb-4">Saves the chosen sections to a JSON file you can import on another browser or keep as a backup.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+                    {WORKSPACE_SECTIONS.map(({ id, label }) => (
+                        <label key={id} className="flex items-center gap-2 text-sm text-skin-text cursor-pointer">
+                            <input type="checkbox" checked={exportSections.includes(id)} onChange={() => setExportSections(prev => toggle(prev, id))} className="accent-skin-accent" />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+                <button
+                    onClick={() => downloadWorkspaceBundle(createWorkspaceBundle(snapshot, exportSections))}
+                    disabled={exportSections.length === 0}
+                    className="px-4 py-2 bg-skin-accent text-skin-base rounded-lg text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+                >
+                    Export JSON
+                </button>
+            </div>
+
+            <div className="glass-panel p-6 rounded-xl border border-skin-border">
+                <h3 className="text-sm font-bold text-skin-text mb-1">Import Workspace</h3>
+                <p className="text-xs text-skin-muted mb-4">Profiles are merged by id and memory facts are added to what you have; other sections replace the current values.</p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = '';
+                    }}
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-4 py-2 border border-skin-border bg-skin-surface hover:bg-skin-surface-hover text-skin-text rounded-lg text-xs font-bold uppercase tracking-widest"
+                >
+                    Choose File…
+                </button>
+
+                {error && (
+                    <div className="mt-4 p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-xs text-red-400">
+                        <div className="font-bold">{error.message}</div>
+                        {error.issues.length > 0 && (
+                            <ul className="mt-2 space-y-0.5 font-mono max-h-40 overflow-y-auto custom-scrollbar">
+                                {error.issues.map(issue => <li key={issue}>{issue}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {pending && (
+                    <div className="mt-4 space-y-3">
+                        <div className="text-xs text-skin-muted">
+                            {pending.fileName} · exported {pending.bundle.exportedAt ? new Date(pending.bundle.exportedAt).toLocaleString() : 'at an unknown time'}
+                        </div>
+                        {pending.preview.map(({ section, label, changes }) => (
+                            <div key={section} className="p-3 rounded-lg border border-skin-border bg-skin-base">
+                                <label className="flex items-center gap-2 text-sm font-bold text-skin-text cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={importSections.includes(section)}
+                                        disabled={changes.length === 0}
+                                        onChange={() => setImportSections(prev => toggle(prev, section))}
+                                        className="accent-skin-accent"
+                                    />
+                                    {label}
+                                    <span className="text-[10px] font-normal text-skin-muted">{changes.length === 0 ? 'no changes' : `${changes.length} change${changes.length === 1 ? '' : 's'}`}</span>
+                                </label>
+                                {changes.length > 0 && (
+                                    <ul className="mt-2 ml-6 space-y-0.5 text-xs text-skin-muted">
+                                        {changes.map(change => <li key={change}>{change}</li>)}
+                                    </ul>
+                                )}
+                            </div>
+                        ))}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleApply}
+                                disabled={importSections.length === 0}
+                                className="px-4 py-2 bg-skin-accent text-skin-base rounded-lg text-xs font-bold uppercase tracking-widest disabled:opacity-40"
+                            >
+                                Apply Selected
+                            </button>
+                            <button
+                                onClick={() => setPending(null)}
+                                className="px-4 py-2 border border-skin-border text-skin-muted hover:text-skin-text rounded-lg text-xs font-bold uppercase tracking-widest"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {message && <p className="mt-4 text-xs text-skin-muted">{message}</p>}
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 
 import React, { createContext, useContext, useReducer, useCallback } from 'react';
 import { CallRequest, CallStatus, TranscriptionItem, AnswerCard } from '../types';
+import { createTranscriptId } from '../utils/transcriptTurns';
 import { AudioSessionManager } from '../services/AudioSessionManager';
 
 // Mock Data for Demo
@@ -114,7 +115,7 @@ export const ProducerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         const call = state.queue.find(c => c.id === state.activeCallId);
         if (call) {
              const newItem: TranscriptionItem = {
-                 id: Date.now().toString(),
+                 id: createTranscriptId(role),
                  role,
                  text,
                  timestamp: new Date()
@@ -0,0 +1,38 @@
+
+import { LiveFixture } from '../../services/MockLiveTransport';
+
+/**
+ * User asks a question, the model starts answering, the user talks over it and the model
+ * yields (interrupted), then answers the follow-up and completes the turn.
+ */
+export const BARGE_IN_FIXTURE: LiveFixture = {
+    name: 'barge-in',
+    description: 'Question, partial answer, user interruption, follow-up answer.',
+    events: [
+        { delayMs: 50, message: { setupComplete: {} } },
+
+        // First user turn (held until the mic has actually streamed something)
+        { delayMs: 300, afterInputFrames: 5, message: { serverContent: { inputTranscription: { text: 'Can you explain how ' } } } },
+        { delayMs: 250, message: { serverContent: { inputTranscription: { text: 'photosynthesis works?' } } } },
+        { delayMs: 200, message: { serverContent: { turnComplete: true } } },
+
+        // Model starts answering
+        { delayMs: 400, message: { serverContent: { outputTranscription: { text: 'Sure. Plants capture light ' } } } },
+        { delayMs: 0, tone: { hz: 220, ms: 400 } },
+        { delayMs: 350, message: { serverContent: { outputTranscription: { text: 'with chlorophyll and turn it ' } } } },
+        { delayMs: 0, tone: { hz: 247, ms: 400 } },
+        { delayMs: 350, tone: { hz: 262, ms: 400 } },
+
+        // User barges in mid-answer
+        { delayMs: 200, afterInputFrames: 60, message: { serverContent: { inputTranscription: { text: 'Wait, what is chlorophyll?' } } } },
+        { delayMs: 100, message: { serverContent: { interrupted: true } } },
+
+        // Follow-up answer
+        { delayMs: 500, message: { serverContent: { outputTranscription: { text: 'Chlorophyll is the green pigment ' } } } },
+        { delayMs: 0, tone: { hz: 294, ms: 500 } },
+        { delayMs: 450, message: { serverContent: { outputTranscription: { text: 'that absorbs red and blue light.' } } } },
+        { delayMs: 0, tone: { hz: 330, ms: 500 } },
+        { delayMs: 500, message: { serverContent: { generationComplete: true } } },
+        { delayMs: 50, message: { serverContent: { turnComplete: true } } },
+    ],
+};
@@ -0,0 +1,151 @@
+/**
+ * Writes small PDFs for the extraction tests, byte for byte, with the structures real producers
+ * emit: a simple Latin font and a Type0 font (Identity-H, /W widths, ToUnicode) whose strings are
+ * 2-byte glyph ids, classic xref tables or object + cross-reference streams (PDF 1.5), and
+ * incremental updates appended after the original %%EOF.
+ */
+
+export interface FixtureText {
+  text: string;
+  x: number;
+  y: number; // Baseline, from the bottom of a US Letter page
+  size: number;
+  font?: 'latin' | 'cid';
+}
+
+export interface FixturePdfOptions {
+  objectStreams?: boolean; // Dictionaries in an /ObjStm, indexed by an /XRef stream
+}
+
+export interface FixturePdf {
+  bytes: Uint8Array;
+  size: number; // Next free object number
+  startxref: number;
+}
+
+interface FixtureObject {
+  dict: string;
+  stream?: string; // Binary string
+}
+
+const CATALOG = 1;
+const PAGES = 2;
+const LATIN_FONT = 3;
+const CID_FONT = 4;
+const CID_DESCENDANT = 5;
+const TO_UNICODE = 6;
+const FONT_DESCRIPTOR = 7;
+const FIRST_PAGE = 8; // Page n is object FIRST_PAGE + 2n, its content stream the object after it
+
+const pageObject = (index: number) => FIRST_PAGE + 2 * index;
+const contentObject = (index: number) => FIRST_PAGE + 2 * index + 1;
+
+const hex = (n: number, digits: number) => n.toString(16).toUpperCase().padStart(digits, '0');
+const escapeLiteral = (text: string) => text.replace(/[\\()]/g, ch => `\\${ch}`);
+
+// Glyph ids of the CID font: 1-based positions in the fixture's CID charset
+const glyphIds = (charset: string[], text: string) => Array.from(text).map(ch => charset.indexOf(ch) + 1);
+
+const contentStream = (texts: FixtureText[], charset: string[]) => texts.map(t => {
+  const shown = t.font === 'cid'
+    ? `<${glyphIds(charset, t.text).map(id => hex(id, 4)).join('')}>`
+    : `(${escapeLiteral(t.text)})`;
+  return `BT /${t.font === 'cid' ? 'F2' : 'F1'} ${t.size} Tf 1 0 0 1 ${t.x} ${t.y} Tm ${shown} Tj ET`;
+}).join('\n');
+
+const toUnicodeCMap = (charset: string[]) => [
+  '/CIDInit /ProcSet findresource begin',
+  '12 dict begin',
+  'begincmap',
+  '/CMapName /Fixture-UCS def',
+  '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+  `${charset.length} beginbfchar`,
+  ...charset.map((ch, i) => `<${hex(i + 1, 4)}> <${hex(ch.charCodeAt(0), 4)}>`),
+  'endbfchar',
+  'endcmap',
+  'CMapName currentdict /CMap defineresource pop',
+  'end',
+  'end',
+].join('\n');
+
+const serialize = (num: number, object: FixtureObject) => object.stream === undefined
+  ? `${num} 0 obj\n${object.dict}\nendobj\n`
+  : `${num} 0 obj\n${object.dict.replace(/>>$/, ` /Length ${object.stream.length} >>`)}\nstream\n${object.stream}\nendstream\nendobj\n`;
+
+const toBytes = (binary: string) => Uint8Array.from(binary, ch => ch.charCodeAt(0) & 0xff);
+
+const xrefTable = (entries: [number, number][], trailer: string) => {
+  const sections = entries.map(([num, offset]) => `${num} 1\n${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  return `xref\n0 1\n0000000000 65535 f \n${sections}trailer\n${trailer}\n`;
+};
+
+export const buildTextPdf = (pages: FixtureText[][], options: FixturePdfOptions = {}): FixturePdf => {
+  const charset = Array.from(new Set(pages.flat().filter(t => t.font === 'cid').flatMap(t => Array.from(t.text))));
+  const objects = new Map<number, FixtureObject>([
+    [CATALOG, { dict: `<< /Type /Catalog /Pages ${PAGES} 0 R >>` }],
+    [PAGES, { dict: `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${pages.length} >>` }],
+    [LATIN_FONT, { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>' }],
+    [CID_FONT, { dict: `<< /Type /Font /Subtype /Type0 /BaseFont /FixtureSans /Encoding /Identity-H /DescendantFonts [${CID_DESCENDANT} 0 R] /ToUnicode ${TO_UNICODE} 0 R >>` }],
+    [CID_DESCENDANT, { dict: `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /FixtureSans /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${FONT_DESCRIPTOR} 0 R /DW 1000 /W [1 [${charset.map(() => 600).join(' ')}]] /CIDToGIDMap /Identity >>` }],
+    [TO_UNICODE, { dict: '<< >>', stream: toUnicodeCMap(charset) }],
+    [FONT_DESCRIPTOR, { dict: '<< /Type /FontDescriptor /FontName /FixtureSans /Flags 4 /FontBBox [0 -200 1000 900] /ItalicAngle 0 /Ascent 900 /Descent -200 /CapHeight 700 /StemV 80 >>' }],
+  ]);
+  pages.forEach((texts, i) => {
+    objects.set(pageObject(i), { dict: `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 ${LATIN_FONT} 0 R /F2 ${CID_FONT} 0 R >> >> /Contents ${contentObject(i)} 0 R >>` });
+    objects.set(contentObject(i), { dict: '<< >>', stream: contentStream(texts, charset) });
+  });
+
+  let out = '%PDF-1.7\n%\xE2\xE3\xCF\xD3\n';
+  const offsets = new Map<number, number>();
+  const write = (num: number, object: FixtureObject) => {
+    offsets.set(num, out.length);
+    out += serialize(num, object);
+  };
+  const size = contentObject(pages.length - 1) + 1;
+
+  if (!options.objectStreams) {
+    objects.forEach((object, num) => write(num, object));
+    const startxref = out.length;
+    out += xrefTable(Array.from(offsets.entries()).sort((a, b) => a[0] - b[0]), `<< /Size ${size} /Root ${CATALOG} 0 R >>`);
+    out += `startxref\n${startxref}\n%%EOF\n`;
+    return { bytes: toBytes(out), size, startxref };
+  }
+
+  // Streams can't live in an object stream; everything else goes into one
+  const packed = Array.from(objects.entries()).filter(([, o]) => o.stream === undefined);
+  objects.forEach((object, num) => { if (object.stream !== undefined) write(num, object); });
+  let body = '';
+  const index = packed.map(([num, object]) => {
+    const entry = `${num} ${body.length}`;
+    body += `${object.dict}\n`;
+    return entry;
+  }).join(' ') + '\n';
+  const objStm = size;
+  const xrefStm = size + 1;
+  write(objStm, { dict: `<< /Type /ObjStm /N ${packed.length} /First ${index.length} >>`, stream: index + body });
+
+  const startxref = out.length;
+  offsets.set(xrefStm, startxref);
+  const row = (type: number, field2: number, field3: number) =>
+    String.fromCharCode(type, (field2 >>> 24) & 0xff, (field2 >>> 16) & 0xff, (field2 >>> 8) & 0xff, field2 & 0xff, (field3 >>> 8) & 0xff, field3 & 0xff);
+  let rows = row(0, 0, 0xffff);
+  for (let num = 1; num <= xrefStm; num++) {
+    const at = packed.findIndex(([n]) => n === num);
+    rows += at !== -1 ? row(2, objStm, at) : row(1, offsets.get(num) ?? 0, 0);
+  }
+  out += serialize(xrefStm, { dict: `<< /Type /XRef /Size ${xrefStm + 1} /W [1 4 2] /Root ${CATALOG} 0 R >>`, stream: rows });
+  out += `startxref\n${startxref}\n%%EOF\n`;
+  return { bytes: toBytes(out), size: xrefStm + 1, startxref };
+};
+
+/** Appends an incremental update that replaces one page's content (Latin font only). */
+export const updatePageText = (pdf: FixturePdf, pageIndex: number, texts: FixtureText[]): FixturePdf => {
+  const base = Array.from(pdf.bytes, b => String.fromCharCode(b)).join('');
+  const offset = base.length;
+  const num = contentObject(pageIndex);
+  let out = base + serialize(num, { dict: '<< >>', stream: contentStream(texts, []) });
+  const startxref = out.length;
+  out += xrefTable([[num, offset]], `<< /Size ${pdf.size} /Root ${CATALOG} 0 R /Prev ${pdf.startxref} >>`);
+  out += `startxref\n${startxref}\n%%EOF\n`;
+  return { bytes: toBytes(out), size: pdf.size, startxref };
+};
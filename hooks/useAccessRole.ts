@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { AccessControl, Role, RolePolicy } from '../services/AccessControl';
+
+interface AccessState {
+  role: Role;
+  policy: RolePolicy;
+  expiresAt: number | null;
+}
+
+const readState = (access: AccessControl): AccessState => ({
+  role: access.getRole(),
+  policy: access.getPolicy(),
+  expiresAt: access.getElevationExpiry(),
+});
+
+/** Current console role and policy; re-renders on elevation, expiry and policy edits. */
+export const useAccessRole = (): AccessState => {
+  const [state, setState] = useState<AccessState>(() => readState(AccessControl.getInstance()));
+
+  useEffect(() => {
+    const access = AccessControl.getInstance();
+    setState(readState(access));
+    return access.subscribe(() => setState(readState(access)));
+  }, []);
+
+  return state;
+};
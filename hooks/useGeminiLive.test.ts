@@ -0,0 +1,220 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState, VoiceState } from '../types';
+import { MockLiveSession, MockLiveTransport } from '../services/MockLiveTransport';
+import { BARGE_IN_FIXTURE } from '../fixtures/live/bargeIn';
+import type { AnalyzedPcmFrame } from '../utils/pcmCaptureWorklet';
+import { useGeminiLive } from './useGeminiLive';
+
+// The audio graph is replaced by fakes; the hook's session and turn logic runs for real
+const audio = vi.hoisted(() => ({
+  onFrame: null as ((frame: AnalyzedPcmFrame) => void) | null,
+  jitterBuffers: [] as { flush: () => void; endOfStream: () => void; isPlaying: boolean }[],
+}));
+
+vi.mock('../utils/pcmCaptureWorklet', () => ({
+  DEFAULT_CAPTURE_FRAME_MS: 40,
+  createPcmCaptureNode: async (_ctx: unknown, onFrame: (frame: AnalyzedPcmFrame) => void) => {
+    audio.onFrame = onFrame;
+    return { port: { onmessage: null }, connect: () => {}, disconnect: () => {} };
+  },
+}));
+
+vi.mock('../utils/audioDevices', () => ({
+  openMicStream: async () => ({
+    stream: { getTracks: () => [], getAudioTracks: () => [] },
+    usedFallback: false,
+  }),
+  applyOutputDevice: async () => false,
+  listAudioDevices: async () => ({ inputs: [], outputs: [] }),
+}));
+
+vi.mock('../utils/jitterBuffer', () => ({
+  JitterBuffer: class {
+    public isPlaying = false;
+    public flush = vi.fn(() => { this.isPlaying = false; });
+    public endOfStream = vi.fn();
+    constructor() {
+      audio.jitterBuffers.push(this);
+    }
+    public enqueue() {
+      this.isPlaying = true;
+      return 0;
+    }
+    public getStats() {
+      return {};
+    }
+  },
+}));
+
+const fakeNode = () => ({ connect: () => {}, disconnect: () => {} });
+
+class FakeAudioContext {
+  public state = 'running';
+  public currentTime = 0;
+  public destination = fakeNode();
+  public createAnalyser() {
+    return { ...fakeNode(), fftSize: 0, smoothingTimeConstant: 0, getByteFrequencyData: () => {} };
+  }
+  public createGain() {
+    return { ...fakeNode(), gain: { cancelScheduledValues: () => {}, setValueAtTime: () => {} } };
+  }
+  public createMediaStreamSource() {
+    return fakeNode();
+  }
+  public createBuffer(_channels: number, length: number) {
+    const data = new Float32Array(length);
+    return { getChannelData: () => data };
+  }
+  public async resume() {}
+  public async close() {
+    this.state = 'closed';
+  }
+}
+
+// Loud and tonal: the local voice activity gate opens and streams it
+const SPEECH_FRAME: AnalyzedPcmFrame = { data: 'AAAA', mimeType: 'audio/pcm;rate=16000', durationMs: 40, rmsDb: -20, flatness: 0.1 };
+
+const speak = async (frames: number) => {
+  await act(async () => {
+    for (let i = 0; i < frames; i++) audio.onFrame!(SPEECH_FRAME);
+  });
+};
+
+// Fixture delays are walked with a few ms of slack: fake timers run each 0ms event a tick later
+const advance = async (ms: number) => {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+};
+
+const startSession = async () => {
+  const transport = new MockLiveTransport(BARGE_IN_FIXTURE);
+  const hook = renderHook(() => useGeminiLive({ systemInstruction: 'Be brief.', voiceName: 'Puck', transport }));
+  await act(async () => {
+    await hook.result.current.connect();
+  });
+  // onopen, setupComplete
+  await advance(50);
+  return { hook, session: transport.lastSession as MockLiveSession };
+};
+
+// First user question through the model's first turnComplete
+const askFirstQuestion = async () => {
+  await speak(5);
+  await advance(300 + 250);
+  await advance(200);
+};
+
+describe('useGeminiLive with the barge-in fixture', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    audio.onFrame = null;
+    audio.jitterBuffers = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('opens the session and streams gated mic frames', async () => {
+    const { hook, session } = await startSession();
+    expect(hook.result.current.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(hook.result.current.voiceState).toBe(VoiceState.LISTENING);
+
+    await speak(5);
+    expect(session.sent.filter(p => p.media).length).toBe(5);
+    expect(session.sent.every(p => p.media?.mimeType === 'audio/pcm;rate=16000')).toBe(true);
+    hook.unmount();
+  });
+
+  it('finalizes the user turn and starts thinking on turnComplete', async () => {
+    const { hook } = await startSession();
+    await speak(5);
+    await advance(300 + 250);
+
+    const pending = hook.result.current.transcripts.filter(t => t.role === 'user');
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({ text: 'Can you explain how photosynthesis works?', isFinal: false });
+
+    await advance(200);
+    expect(hook.result.current.voiceState).toBe(VoiceState.THINKING);
+    expect(hook.result.current.transcripts.find(t => t.role === 'user')).toMatchObject({ isFinal: true });
+    expect(audio.jitterBuffers[0].endOfStream).toHaveBeenCalled();
+    hook.unmount();
+  });
+
+  it('speaks the answer, then yields to the user on interrupted', async () => {
+    const { hook } = await startSession();
+    await askFirstQuestion();
+
+    await advance(410);
+    expect(hook.result.current.voiceState).toBe(VoiceState.SPEAKING);
+    await advance(700);
+    const answer = hook.result.current.transcripts.find(t => t.role === 'assistant');
+    expect(answer).toMatchObject({ text: 'Sure. Plants capture light with chlorophyll and turn it ', isFinal: false });
+
+    // The barge-in is held until the mic has streamed 60 frames in total
+    await advance(1000);
+    expect(hook.result.current.voiceState).toBe(VoiceState.SPEAKING);
+    await speak(55);
+    await advance(200 + 100);
+
+    expect(hook.result.current.voiceState).toBe(VoiceState.INTERRUPTED);
+    expect(audio.jitterBuffers[0].flush).toHaveBeenCalled();
+    expect(audio.jitterBuffers[0].isPlaying).toBe(false);
+    const cutOff = hook.result.current.transcripts.find(t => t.role === 'assistant');
+    expect(cutOff).toMatchObject({ isFinal: true, interrupted: true });
+
+    await advance(499);
+    expect(hook.result.current.voiceState).toBe(VoiceState.INTERRUPTED);
+    await advance(1);
+    expect(hook.result.current.voiceState).not.toBe(VoiceState.INTERRUPTED);
+    hook.unmount();
+  });
+
+  it('answers the follow-up in a new turn and completes it', async () => {
+    const { hook, session } = await startSession();
+    await askFirstQuestion();
+    await advance(1110);
+    await speak(55);
+    await advance(200 + 100);
+
+    await advance(955);
+    expect(hook.result.current.voiceState).toBe(VoiceState.SPEAKING);
+    await advance(600);
+    expect(hook.result.current.voiceState).toBe(VoiceState.THINKING);
+
+    const turns = hook.result.current.transcripts
+      .filter(t => t.role !== 'system')
+      .map(t => ({ role: t.role, text: t.text, isFinal: t.isFinal, interrupted: t.interrupted ?? false }));
+    expect(turns).toEqual([
+      { role: 'user', text: 'Can you explain how photosynthesis works?', isFinal: true, interrupted: false },
+      { role: 'assistant', text: 'Sure. Plants capture light with chlorophyll and turn it ', isFinal: true, interrupted: true },
+      { role: 'user', text: 'Wait, what is chlorophyll?', isFinal: true, interrupted: false },
+      { role: 'assistant', text: 'Chlorophyll is the green pigment that absorbs red and blue light.', isFinal: true, interrupted: false },
+    ]);
+    expect(session.toolResponses).toEqual([]);
+    expect(session.clientContent).toEqual([]);
+    hook.unmount();
+  });
+
+  it('sends a typed turn as client content', async () => {
+    const { hook, session } = await startSession();
+    let accepted = false;
+    act(() => {
+      accepted = hook.result.current.sendText('  What is chlorophyll?  ');
+    });
+
+    expect(accepted).toBe(true);
+    expect(session.clientContent).toEqual([
+      { turns: [{ role: 'user', parts: [{ text: 'What is chlorophyll?' }] }], turnComplete: true },
+    ]);
+    expect(hook.result.current.voiceState).toBe(VoiceState.THINKING);
+    hook.unmount();
+  });
+});
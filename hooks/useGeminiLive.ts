@@ -1,26 +1,73 @@
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { ConnectionState, TranscriptionItem, VoiceState } from '../types';
-import { pcmToGeminiBlob, base64ToFloat32, createAudioBuffer, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { CaptureMode, ConnectionState, TranscriptionItem, VoiceState } from '../types';
+import { base64ToFloat32, createAudioBuffer } from '../utils/audioUtils';
+import { createPcmCaptureNode, DEFAULT_CAPTURE_FRAME_MS } from '../utils/pcmCaptureWorklet';
+import { applyOutputDevice, listAudioDevices, openMicStream } from '../utils/audioDevices';
+import { VoiceActivityGate } from '../utils/voiceActivity';
+import { JitterBuffer } from '../utils/jitterBuffer';
+import { SessionCapture, SessionRecorder, supportsSessionRecording } from '../utils/sessionRecorder';
+import { appendTurnFragment, createSystemItem, createTranscriptId, finalizeTurn } from '../utils/transcriptTurns';
+import { getReconnectRecap } from '../utils/prompts';
+import { AudioSessionManager } from '../services/AudioSessionManager';
+import { ToolRegistry } from '../services/ToolRegistry';
+import { LatencyMetrics } from '../services/LatencyMetrics';
+import { GenerationConfigResolver } from '../services/GenerationConfigResolver';
+import { MaintenanceGate, MaintenanceModeError } from '../services/MaintenanceGate';
+import { LiveTransport, LiveTransportSession, resolveLiveTransport } from '../services/LiveTransport';
 
 // Gemini Model Configuration
 const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
 const OUTPUT_SAMPLE_RATE = 24000;
-const API_KEY = process.env.API_KEY as string;
+
+// If local speech ended but the model never answers, stop showing THINKING after this long
+const THINKING_TIMEOUT_MS = 8000;
+
+// Reconnect Policy
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+
+// Exponential backoff with jitter: half the window is fixed, half is random,
+// so clients that dropped together don't all retry on the same tick.
+const getReconnectDelay = (attempt: number) => {
+  const window = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return window / 2 + Math.random() * (window / 2);
+};
 
 interface UseGeminiLiveProps {
   systemInstruction: string;
   voiceName: string;
+  captureFrameMs?: number; // Mic chunk size sent upstream (20/40/100ms)
+  transport?: LiveTransport; // Defaults to Gemini, or (dev builds) a mock picked via ?liveTransport=
+  inputDeviceId?: string | null; // Preferred mic; null = system default
+  outputDeviceId?: string | null; // Preferred speaker (AudioContext.setSinkId)
+  captureMode?: CaptureMode; // Hand-held modes disable server VAD and mark turns explicitly
+  recordSession?: boolean; // Record mic + model audio from the next connect until disconnect
+  onRecordingComplete?: (capture: SessionCapture) => void;
 }
 
-export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLiveProps) => {
+export const useGeminiLive = ({
+  systemInstruction,
+  voiceName,
+  captureFrameMs = DEFAULT_CAPTURE_FRAME_MS,
+  transport,
+  inputDeviceId = null,
+  outputDeviceId = null,
+  captureMode = 'continuous',
+  recordSession = false,
+  onRecordingComplete,
+}: UseGeminiLiveProps) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [voiceState, setVoiceState] = useState<VoiceState>(VoiceState.IDLE);
   const [error, setError] = useState<string | null>(null);
   const [transcripts, setTranscripts] = useState<TranscriptionItem[]>([]);
   const [volume, setVolume] = useState(0);
   const [isMicMuted, setIsMicMuted] = useState(false);
+  const [isTransmitting, setIsTransmitting] = useState(false); // Talk key held / toggled on
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false); // Local VAD, independent of server events
+  const [isRecording, setIsRecording] = useState(false);
 
   // Audio Contexts
   const inputContextRef = useRef<AudioContext | null>(null);
@@ -28,7 +75,7 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
   const streamRef = useRef<MediaStream | null>(null);
   
   // Audio Nodes
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const processorRef = useRef<AudioWorkletNode | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
   
@@ -38,28 +85,91 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
   const volumeAnimationRef = useRef<number | null>(null);
 
   // Session Ref
-  const activeSessionRef = useRef<any>(null);
+  const activeSessionRef = useRef<LiveTransportSession | null>(null);
   const connectionStateRef = useRef<ConnectionState>(ConnectionState.DISCONNECTED);
   const connectAttemptRef = useRef<number>(0);
+
+  // Reconnect state
+  const hasConnectedRef = useRef(false); // A session was established during this connect() lifecycle
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const openSessionRef = useRef<(attemptId: number, instruction: string) => void>(() => {});
+  const transcriptsRef = useRef<TranscriptionItem[]>([]);
+  const openTurnsRef = useRef<{ user: string | null; assistant: string | null }>({ user: null, assistant: null });
+  const systemInstructionRef = useRef(systemInstruction);
   
   // Playback state
-  const nextStartTimeRef = useRef<number>(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const jitterBufferRef = useRef<JitterBuffer | null>(null);
   
   // Mute Ref
   const isMicMutedRef = useRef(false);
 
-  // Sync ref
+  // Capture mode
+  const captureModeRef = useRef(captureMode);
+  const isTransmittingRef = useRef(false);
+  const manualActivityRef = useRef(false); // Session was opened with automatic activity detection off
+
+  // Local VAD
+  const thinkingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Device selection
+  const inputDeviceIdRef = useRef(inputDeviceId);
+  const outputDeviceIdRef = useRef(outputDeviceId);
+  const appliedSinkIdRef = useRef<string | null>(null);
+  const reconcileDevicesRef = useRef<() => void>(() => {});
+
+  // Session recording
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const recordSessionRef = useRef(recordSession);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+
+  const sessionManager = useRef(AudioSessionManager.getInstance()).current;
+  const toolRegistry = useRef(ToolRegistry.getInstance()).current;
+  const latencyMetrics = useRef(LatencyMetrics.getInstance()).current;
+  const generationConfig = useRef(GenerationConfigResolver.getInstance()).current;
+  const maintenanceGate = useRef(MaintenanceGate.getInstance()).current;
+  const liveTransport = useMemo(() => transport ?? resolveLiveTransport(), [transport]);
+
+  // Sync refs
   useEffect(() => {
     connectionStateRef.current = connectionState;
   }, [connectionState]);
 
+  useEffect(() => {
+    transcriptsRef.current = transcripts;
+  }, [transcripts]);
+
+  useEffect(() => {
+    systemInstructionRef.current = systemInstruction;
+  }, [systemInstruction]);
+
+  useEffect(() => {
+    captureModeRef.current = captureMode;
+    // Leaving a hand-held mode must not leave the mic latched open
+    if (captureMode === 'continuous') {
+        isTransmittingRef.current = false;
+        setIsTransmitting(false);
+    }
+  }, [captureMode]);
+
+  useEffect(() => {
+    inputDeviceIdRef.current = inputDeviceId;
+  }, [inputDeviceId]);
+
+  useEffect(() => {
+    outputDeviceIdRef.current = outputDeviceId;
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    recordSessionRef.current = recordSession;
+    onRecordingCompleteRef.current = onRecordingComplete;
+  }, [recordSession, onRecordingComplete]);
+
   // Initialize Audio Contexts
   const ensureAudioContexts = useCallback(() => {
     if (!inputContextRef.current) {
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: PCM_SAMPLE_RATE,
-      });
+      // Native device rate; the capture worklet resamples to PCM_SAMPLE_RATE
+      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
     }
     if (!outputContextRef.current) {
       outputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({
@@ -95,21 +205,42 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
       analyze();
   }, []);
 
+  // --- Turn Model ---
+  // One open turn per speaker; fragments stream into it until turnComplete / interrupted closes it.
+
+  const closeTurn = useCallback((role: 'user' | 'assistant', options: { interrupted?: boolean } = {}) => {
+      const turnId = openTurnsRef.current[role];
+      if (!turnId) return;
+      openTurnsRef.current[role] = null;
+      const now = new Date();
+      setTranscripts(prev => finalizeTurn(prev, turnId, { ...options, now }));
+  }, []);
+
+  const appendFragment = useCallback((role: 'user' | 'assistant', text: string) => {
+      const turns = openTurnsRef.current;
+      // The model starting a new turn ends the user's
+      if (role === 'assistant' && !turns.assistant) closeTurn('user');
+      const turnId = turns[role] ?? createTranscriptId(role);
+      turns[role] = turnId;
+      const now = new Date();
+      setTranscripts(prev => appendTurnFragment(prev, turnId, role, text, now));
+  }, [closeTurn]);
+
+  const closeAllTurns = useCallback(() => {
+      closeTurn('user');
+      closeTurn('assistant');
+  }, [closeTurn]);
+
   // Handle Interruptions (Barge-In)
   const handleInterruption = useCallback(() => {
       // console.log('--- INTERRUPTION DETECTED ---');
       setVoiceState(VoiceState.INTERRUPTED);
+      closeTurn('assistant', { interrupted: true });
       
-      // 1. Stop all currently playing sources instantly
-      activeSourcesRef.current.forEach(source => { 
-          try { source.stop(); } catch (e) {} 
-      });
-      activeSourcesRef.current.clear();
-      
-      // 2. Reset Audio Output Context Time Cursor
-      if (outputContextRef.current) {
-          nextStartTimeRef.current = outputContextRef.current.currentTime + 0.01;
-      }
+      // 1-2. Stop all queued/playing chunks instantly and reset the playback cursor
+      jitterBufferRef.current?.flush();
+      latencyMetrics.markPlaybackStopped();
+      latencyMetrics.completeTurn();
 
       // 3. Cancel scheduled values on gain node to stop ringing
       if (outputNodeRef.current && outputContextRef.current) {
@@ -121,14 +252,29 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
       setTimeout(() => {
           setVoiceState(VoiceState.LISTENING);
       }, 500);
-  }, []);
+  }, [latencyMetrics, closeTurn]);
+
+  // Stops the recorder (if any) while the output context is still open and hands off the capture
+  const finishRecording = useCallback(() => {
+      const recorder = sessionRecorderRef.current;
+      if (!recorder) return;
+      sessionRecorderRef.current = null;
+      setIsRecording(false);
+      recorder.stop(transcriptsRef.current).then(capture => {
+          if (capture) onRecordingCompleteRef.current?.(capture);
+      }).catch(e => {
+          sessionManager.log('error', 'audio', 'Session recording failed to finalize', { error: String(e) });
+      });
+  }, [sessionManager]);
 
   const cleanupAudioNodes = useCallback(() => {
+      finishRecording();
       if (streamRef.current) {
           streamRef.current.getTracks().forEach(track => track.stop());
           streamRef.current = null;
       }
       if (processorRef.current) {
+          processorRef.current.port.onmessage = null;
           processorRef.current.disconnect();
           processorRef.current = null;
       }
@@ -148,17 +294,31 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
           cancelAnimationFrame(volumeAnimationRef.current);
           volumeAnimationRef.current = null;
       }
+  }, [finishRecording]);
+
+  const clearReconnectTimer = useCallback(() => {
+      if (reconnectTimerRef.current) {
+          clearTimeout(reconnectTimerRef.current);
+          reconnectTimerRef.current = null;
+      }
   }, []);
 
   const disconnect = useCallback(() => {
     connectAttemptRef.current += 1; // Invalidate any pending connection attempts
+    clearReconnectTimer();
+    reconnectAttemptsRef.current = 0;
+    hasConnectedRef.current = false;
+    isTransmittingRef.current = false;
+    setIsTransmitting(false);
+    setIsUserSpeaking(false);
+    if (thinkingTimerRef.current) clearTimeout(thinkingTimerRef.current);
     cleanupAudioNodes();
     setVolume(0);
 
-    activeSourcesRef.current.forEach(s => {
-      try { s.stop(); } catch(e){}
-    });
-    activeSourcesRef.current.clear();
+    jitterBufferRef.current?.flush();
+    jitterBufferRef.current = null;
+    sessionManager.unregisterPlaybackStats();
+    latencyMetrics.resetPending();
 
     if (inputContextRef.current?.state !== 'closed') inputContextRef.current?.close();
     if (outputContextRef.current?.state !== 'closed') outputContextRef.current?.close();
@@ -167,160 +327,161 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
     
     // Close the session if it exists
     if (activeSessionRef.current) {
-        // try { activeSessionRef.current.close(); } catch(e) {} // Assuming close method exists if strictly needed, but SDK usually handles cleanup on disconnect or we just drop reference
-        // Note: The GenAI SDK LiveSession doesn't explicitly expose a public close() method in all versions, 
-        // but dropping the reference and stopping the stream is usually enough.
+        try { activeSessionRef.current.close(); } catch(e) {}
         activeSessionRef.current = null;
     }
 
     setConnectionState(ConnectionState.DISCONNECTED);
     setVoiceState(VoiceState.IDLE);
-    setTranscripts(prev => [...prev, { id: Date.now().toString(), role: 'system', text: 'Session ended.', timestamp: new Date() }]);
-  }, [cleanupAudioNodes]);
-
-  const connect = useCallback(async () => {
-    if (!API_KEY) {
-        setError("API Key is missing. Check process.env.API_KEY");
-        setConnectionState(ConnectionState.ERROR);
-        return;
-    }
-
-    const currentAttemptId = connectAttemptRef.current + 1;
-    connectAttemptRef.current = currentAttemptId;
-
-    try {
-      setConnectionState(ConnectionState.CONNECTING);
-      setVoiceState(VoiceState.IDLE);
-      setError(null);
-      
-      ensureAudioContexts();
-      
-      // Resume contexts if suspended (user interaction requirement)
-      if (inputContextRef.current?.state === 'suspended') await inputContextRef.current.resume();
-      if (outputContextRef.current?.state === 'suspended') await outputContextRef.current.resume();
+    closeAllTurns();
+    setTranscripts(prev => [...prev, createSystemItem('Session ended.')]);
+  }, [cleanupAudioNodes, clearReconnectTimer, latencyMetrics, closeAllTurns]);
+
+  // Called when the socket drops or a (re)connect attempt fails. Keeps the mic and
+  // output chain alive and re-opens the session with backoff until the cap is hit.
+  const handleSessionLost = useCallback((reason: string) => {
+      // Invalidate callbacks from the dead socket so onerror + onclose don't both schedule a retry
+      connectAttemptRef.current += 1;
+      try { activeSessionRef.current?.close(); } catch (e) {}
+      activeSessionRef.current = null;
+      // An open talk turn can't be closed on a dead socket; the user presses again after reconnect
+      isTransmittingRef.current = false;
+      setIsTransmitting(false);
+      latencyMetrics.resetPending();
+      // Whatever was streaming when the socket died is as complete as it will get
+      closeAllTurns();
+
+      // Never got a session up: a bad key or config won't fix itself, so fail fast
+      if (!hasConnectedRef.current) {
+          sessionManager.log('error', 'network', 'Live session failed to open', { reason });
+          setError(reason);
+          setConnectionState(ConnectionState.ERROR);
+          setVoiceState(VoiceState.IDLE);
+          cleanupAudioNodes();
+          return;
+      }
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      // If user cancelled or another connect happened, abort
-      if (connectAttemptRef.current !== currentAttemptId) {
-          stream.getTracks().forEach(t => t.stop());
+      if (reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+          sessionManager.log('error', 'network', 'Reconnect abandoned', { reason, attempts: reconnectAttemptsRef.current });
+          setError(`Connection lost. Gave up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts (${reason}).`);
+          setConnectionState(ConnectionState.ERROR);
+          setVoiceState(VoiceState.IDLE);
+          setTranscripts(prev => [...prev, createSystemItem('Connection lost. Press Initialize to start a new session.')]);
+          reconnectAttemptsRef.current = 0;
+          hasConnectedRef.current = false;
+          cleanupAudioNodes();
           return;
       }
 
-      streamRef.current = stream;
-      setIsMicMuted(false);
-      isMicMutedRef.current = false;
+      reconnectAttemptsRef.current += 1;
+      const attempt = reconnectAttemptsRef.current;
+      const delayMs = Math.round(getReconnectDelay(attempt));
+      sessionManager.log('warn', 'network', `Live session lost, reconnect ${attempt}/${MAX_RECONNECT_ATTEMPTS} in ${delayMs}ms`, { reason, attempt, delayMs });
 
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
-      
-      // --- Setup Output Audio Chain (AI Voice) ---
-      const outputCtx = outputContextRef.current!;
-      const outputAnalyser = outputCtx.createAnalyser();
-      outputAnalyser.fftSize = 64;
-      outputAnalyser.smoothingTimeConstant = 0.5;
-      outputAnalyserRef.current = outputAnalyser;
-      outputNodeRef.current = outputCtx.createGain();
-      outputNodeRef.current.connect(outputAnalyser);
-      outputAnalyser.connect(outputCtx.destination);
-      nextStartTimeRef.current = outputCtx.currentTime;
+      setConnectionState(ConnectionState.RECONNECTING);
+      setVoiceState(VoiceState.IDLE);
+      if (attempt === 1) {
+          setTranscripts(prev => [...prev, createSystemItem('Connection lost. Reconnecting...')]);
+      }
 
-      // --- Setup Input Audio Chain (Mic) ---
-      const inputCtx = inputContextRef.current!;
-      const inputAnalyser = inputCtx.createAnalyser();
-      inputAnalyser.fftSize = 64;
-      inputAnalyser.smoothingTimeConstant = 0.5;
-      inputAnalyserRef.current = inputAnalyser;
-      const source = inputCtx.createMediaStreamSource(stream);
-      const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-      
-      source.connect(inputAnalyser);
-      inputAnalyser.connect(processor);
-      processor.connect(inputCtx.destination);
-      inputSourceRef.current = source;
-      processorRef.current = processor;
+      clearReconnectTimer();
+      reconnectTimerRef.current = setTimeout(() => {
+          reconnectTimerRef.current = null;
+          const attemptId = connectAttemptRef.current + 1;
+          connectAttemptRef.current = attemptId;
+
+          const recap = getReconnectRecap(transcriptsRef.current);
+          sessionManager.log('info', 'network', `Reconnect attempt ${attempt}`, { recapChars: recap.length });
+          openSessionRef.current(attemptId, recap ? `${systemInstructionRef.current}\n\n${recap}` : systemInstructionRef.current);
+      }, delayMs);
+  }, [sessionManager, latencyMetrics, cleanupAudioNodes, clearReconnectTimer, closeAllTurns]);
+
+  // Opens a Live session against the already-running audio graph
+  const openSession = useCallback((attemptId: number, instruction: string) => {
+      if (attemptId === connectAttemptRef.current && !hasConnectedRef.current) {
+          sessionManager.log('info', 'network', `Opening Live session via ${liveTransport.name} transport`, { temperature: generationConfig.resolve('live').temperature });
+      }
 
-      startVolumeAnalysis();
+      // Tools are snapshotted per session; ones registered later apply from the next (re)connect
+      const tools = toolRegistry.getTools();
+      const cancelledToolCalls = new Set<string>();
+      // Mode is fixed per session; switching modes mid-session only changes gating until the next connect
+      const manualActivity = captureModeRef.current !== 'continuous';
+      manualActivityRef.current = manualActivity;
 
-      // Connect to Live API
-      const sessionPromise = ai.live.connect({
+      const sessionPromise = liveTransport.connect({
         model: MODEL_NAME,
-        config: {
+        // Admin temperature is read per (re)connect; the Live API can't change it mid-session
+        config: generationConfig.applyLive({
+          tools,
+          realtimeInputConfig: manualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
           responseModalities: [Modality.AUDIO],
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
           },
-          systemInstruction: systemInstruction,
-        },
+          systemInstruction: instruction,
+        }),
         callbacks: {
           onopen: () => {
-            if (connectAttemptRef.current !== currentAttemptId) return;
-            console.log('Gemini Live Connection Opened');
+            if (connectAttemptRef.current !== attemptId) return;
+            const isReconnect = hasConnectedRef.current;
+            hasConnectedRef.current = true;
+            sessionManager.log('info', 'network', isReconnect ? 'Live session re-established' : 'Live session opened', { attempt: reconnectAttemptsRef.current });
             setConnectionState(ConnectionState.CONNECTED);
             setVoiceState(VoiceState.LISTENING);
+            setError(null);
             
-            setTranscripts(prev => [...prev, {
-              id: Date.now().toString(),
-              role: 'system',
-              text: 'Connected to Nexus Voice.',
-              timestamp: new Date()
-            }]);
-
-            // Audio Streaming
-            processor.onaudioprocess = (e) => {
-              if (isMicMutedRef.current) return;
-              // Strict Guard: Only process if connected and this is the active attempt
-              if (connectionStateRef.current !== ConnectionState.CONNECTED) return;
-              if (connectAttemptRef.current !== currentAttemptId) return;
-              
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = pcmToGeminiBlob(inputData, PCM_SAMPLE_RATE);
-              
-              sessionPromise.then(session => {
-                // Double Check inside the microtask
-                if (connectionStateRef.current !== ConnectionState.CONNECTED) return;
-                
-                // If we have a session ref, use it directly (faster), otherwise use the resolved one
-                const currentSession = activeSessionRef.current || session;
-                
-                try {
-                    currentSession.sendRealtimeInput({ media: pcmBlob });
-                } catch(e) {
-                    console.warn("Send failed", e);
-                }
-              }).catch(e => {
-                  // Silently ignore interruptions in the promise chain
-              });
-            };
+            setTranscripts(prev => [...prev, createSystemItem(isReconnect ? 'Reconnected. Resuming conversation.' : 'Connected to Nexus Voice.')]);
           },
           onmessage: async (msg: LiveServerMessage) => {
-            if (connectAttemptRef.current !== currentAttemptId) return;
+            if (connectAttemptRef.current !== attemptId) return;
+
+            // Server accepted our setup: the link is healthy again, so reset the backoff
+            if (msg.setupComplete && reconnectAttemptsRef.current > 0) {
+                sessionManager.log('info', 'network', 'Reconnect succeeded', { attempts: reconnectAttemptsRef.current });
+                reconnectAttemptsRef.current = 0;
+            }
+
+            // Function calling: run the handlers and answer on the same session
+            if (msg.toolCallCancellation?.ids) {
+                msg.toolCallCancellation.ids.forEach(id => cancelledToolCalls.add(id));
+                sessionManager.log('info', 'tools', 'Tool calls cancelled by server', { ids: msg.toolCallCancellation.ids });
+            }
+            if (msg.toolCall?.functionCalls?.length) {
+                const responses = await toolRegistry.dispatch(msg.toolCall.functionCalls);
+                const live = responses.filter(r => !r.id || !cancelledToolCalls.has(r.id));
+                if (connectAttemptRef.current !== attemptId || !activeSessionRef.current || live.length === 0) return;
+                try {
+                    activeSessionRef.current.sendToolResponse({ functionResponses: live });
+                } catch (e) {
+                    sessionManager.log('error', 'tools', 'Failed to send tool response', e);
+                }
+                return;
+            }
 
-            // State: User Turn Complete -> Thinking
+            // State: Model Turn Complete -> Thinking
             if (msg.serverContent?.turnComplete) {
+                jitterBufferRef.current?.endOfStream();
+                latencyMetrics.completeTurn();
                 setVoiceState(VoiceState.THINKING);
             }
 
-            // Transcriptions
+            // Transcriptions stream into the open turn of their speaker
             if (msg.serverContent?.outputTranscription?.text) {
-               setTranscripts(prev => {
-                const last = prev[prev.length - 1];
-                if (last && last.role === 'assistant') {
-                    return [...prev.slice(0, -1), { ...last, text: last.text + msg.serverContent!.outputTranscription!.text }];
-                }
-                return [...prev, { id: Date.now().toString(), role: 'assistant', text: msg.serverContent!.outputTranscription!.text, timestamp: new Date() }];
-               });
+               latencyMetrics.markFirstTranscription();
+               appendFragment('assistant', msg.serverContent.outputTranscription.text);
             }
             if (msg.serverContent?.inputTranscription?.text) {
                // User is speaking
                if (voiceState !== VoiceState.INTERRUPTED && voiceState !== VoiceState.SPEAKING) {
                    setVoiceState(VoiceState.LISTENING); 
                }
-               setTranscripts(prev => {
-                   const last = prev[prev.length - 1];
-                   if (last && last.role === 'user') {
-                       return [...prev.slice(0, -1), { ...last, text: last.text + msg.serverContent!.inputTranscription!.text }];
-                   }
-                   return [...prev, { id: Date.now().toString(), role: 'user', text: msg.serverContent!.inputTranscription!.text, timestamp: new Date() }];
-               });
+               appendFragment('user', msg.serverContent.inputTranscription.text);
+            }
+
+            // The model's turn is over: both sides of the exchange are final
+            if (msg.serverContent?.turnComplete) {
+                closeAllTurns();
             }
 
             // Interruptions
@@ -336,67 +497,227 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
                   setVoiceState(VoiceState.SPEAKING);
               }
 
-              if (!outputContextRef.current) return;
-              const outputCtx = outputContextRef.current;
+              if (!outputContextRef.current || !jitterBufferRef.current) return;
               const float32Data = base64ToFloat32(audioData);
-              const audioBuffer = createAudioBuffer(outputCtx, float32Data, OUTPUT_SAMPLE_RATE);
-              const source = outputCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputNodeRef.current!);
-              
-              const now = outputCtx.currentTime;
-              const startAt = Math.max(nextStartTimeRef.current, now + 0.02);
-              source.start(startAt);
-              nextStartTimeRef.current = startAt + audioBuffer.duration;
-              
-              activeSourcesRef.current.add(source);
-              source.onended = () => {
-                  activeSourcesRef.current.delete(source);
-                  if (activeSourcesRef.current.size === 0) {
-                      setTimeout(() => {
-                          if (activeSourcesRef.current.size === 0) {
-                              setVoiceState(VoiceState.LISTENING);
-                          }
-                      }, 200); 
-                  }
-              };
+              const audibleInMs = jitterBufferRef.current.enqueue(createAudioBuffer(outputContextRef.current, float32Data, OUTPUT_SAMPLE_RATE));
+              latencyMetrics.markFirstAudio(performance.now() + audibleInMs);
             }
           },
-          onclose: () => {
-            console.log('Connection closed');
-            if (connectAttemptRef.current === currentAttemptId) {
-                setConnectionState(ConnectionState.DISCONNECTED);
-                setVoiceState(VoiceState.IDLE);
-                activeSessionRef.current = null;
-            }
+          onclose: (e: CloseEvent) => {
+            if (connectAttemptRef.current !== attemptId) return;
+            handleSessionLost(`Socket closed (code ${e.code}${e.reason ? `: ${e.reason}` : ''})`);
           },
-          onerror: (err) => {
+          onerror: (err: ErrorEvent) => {
             console.error('Connection error:', err);
-            if (connectAttemptRef.current === currentAttemptId) {
-                setError(err instanceof Error ? err.message : "Connection failed");
-                setConnectionState(ConnectionState.ERROR);
-                setVoiceState(VoiceState.IDLE);
-                activeSessionRef.current = null;
-                cleanupAudioNodes();
-            }
+            if (connectAttemptRef.current !== attemptId) return;
+            handleSessionLost(err.message || "Connection error");
           }
         }
       });
       
       // Resolve session for later use
       sessionPromise.then(sess => {
-          if (connectAttemptRef.current === currentAttemptId) {
+          if (connectAttemptRef.current === attemptId) {
               activeSessionRef.current = sess;
+          } else {
+              // Superseded while the handshake was in flight
+              try { sess.close(); } catch (e) {}
           }
       }).catch(err => {
           console.error("Session connection failed:", err);
-          if (connectAttemptRef.current === currentAttemptId) {
-              setError(err.message || "Network Error");
-              setConnectionState(ConnectionState.ERROR);
-              setVoiceState(VoiceState.IDLE);
-              cleanupAudioNodes();
+          if (connectAttemptRef.current === attemptId) {
+              handleSessionLost(err?.message || "Network Error");
           }
       });
+  }, [sessionManager, toolRegistry, latencyMetrics, generationConfig, handleInterruption, handleSessionLost, appendFragment, closeAllTurns, voiceName, liveTransport]);
+
+  useEffect(() => {
+    openSessionRef.current = openSession;
+  }, [openSession]);
+
+  // Don't let a pending retry (or THINKING timeout) fire into an unmounted hook
+  useEffect(() => () => {
+    clearReconnectTimer();
+    if (thinkingTimerRef.current) clearTimeout(thinkingTimerRef.current);
+  }, [clearReconnectTimer]);
+
+  const connect = useCallback(async () => {
+    try {
+      maintenanceGate.assertAvailable('Live session');
+    } catch (err) {
+      if (!(err instanceof MaintenanceModeError)) throw err;
+      setError(err.message);
+      setConnectionState(ConnectionState.ERROR);
+      return;
+    }
+
+    const currentAttemptId = connectAttemptRef.current + 1;
+    connectAttemptRef.current = currentAttemptId;
+    clearReconnectTimer();
+    reconnectAttemptsRef.current = 0;
+    hasConnectedRef.current = false;
+
+    try {
+      setConnectionState(ConnectionState.CONNECTING);
+      setVoiceState(VoiceState.IDLE);
+      setError(null);
+      
+      ensureAudioContexts();
+      
+      // Resume contexts if suspended (user interaction requirement)
+      if (inputContextRef.current?.state === 'suspended') await inputContextRef.current.resume();
+      if (outputContextRef.current?.state === 'suspended') await outputContextRef.current.resume();
+
+      const { stream, usedFallback } = await openMicStream(inputDeviceIdRef.current);
+      // If user cancelled or another connect happened, abort
+      if (connectAttemptRef.current !== currentAttemptId) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+      }
+      if (usedFallback) {
+          sessionManager.log('warn', 'audio', 'Preferred microphone unavailable, using system default', { deviceId: inputDeviceIdRef.current });
+      }
+
+      streamRef.current = stream;
+      setIsMicMuted(false);
+      isMicMutedRef.current = false;
+
+      // --- Setup Output Audio Chain (AI Voice) ---
+      const outputCtx = outputContextRef.current!;
+      appliedSinkIdRef.current = null;
+      if (outputDeviceIdRef.current) {
+          try {
+              if (await applyOutputDevice(outputCtx, outputDeviceIdRef.current)) {
+                  appliedSinkIdRef.current = outputDeviceIdRef.current;
+              }
+          } catch (e) {
+              sessionManager.log('warn', 'audio', 'Preferred speaker unavailable, using system default', { deviceId: outputDeviceIdRef.current, error: String(e) });
+          }
+      }
+      const outputAnalyser = outputCtx.createAnalyser();
+      outputAnalyser.fftSize = 64;
+      outputAnalyser.smoothingTimeConstant = 0.5;
+      outputAnalyserRef.current = outputAnalyser;
+      outputNodeRef.current = outputCtx.createGain();
+      outputNodeRef.current.connect(outputAnalyser);
+      outputAnalyser.connect(outputCtx.destination);
+
+      // Model audio goes through the adaptive jitter buffer
+      const jitterBuffer = new JitterBuffer(outputCtx, outputNodeRef.current, {
+          onDrained: () => {
+              // Reply finished on its own, so any speech onset during it wasn't a barge-in
+              latencyMetrics.cancelBargeIn();
+              setTimeout(() => {
+                  if (jitterBufferRef.current === jitterBuffer && !jitterBuffer.isPlaying) {
+                      setVoiceState(VoiceState.LISTENING);
+                  }
+              }, 200);
+          },
+          onUnderrun: (stats) => sessionManager.log('warn', 'audio', `Playback underrun #${stats.underruns}, target depth now ${stats.targetDepthMs}ms`, stats),
+      });
+      jitterBufferRef.current = jitterBuffer;
+      sessionManager.registerPlaybackStats(() => jitterBuffer.getStats());
+
+      // Optional recording: taps the mic and the model output gain onto one stereo timeline
+      if (recordSessionRef.current) {
+          if (supportsSessionRecording()) {
+              try {
+                  const recorder = new SessionRecorder(outputCtx, outputNodeRef.current);
+                  recorder.start(stream);
+                  sessionRecorderRef.current = recorder;
+                  setIsRecording(true);
+                  sessionManager.log('info', 'audio', 'Session recording started');
+              } catch (e) {
+                  sessionManager.log('error', 'audio', 'Session recording could not start', { error: String(e) });
+              }
+          } else {
+              sessionManager.log('warn', 'audio', 'Session recording is not supported in this browser');
+          }
+      }
+
+      // --- Setup Input Audio Chain (Mic) ---
+      const inputCtx = inputContextRef.current!;
+      const inputAnalyser = inputCtx.createAnalyser();
+      inputAnalyser.fftSize = 64;
+      inputAnalyser.smoothingTimeConstant = 0.5;
+      inputAnalyserRef.current = inputAnalyser;
+      const source = inputCtx.createMediaStreamSource(stream);
+
+      // Audio Streaming: the worklet resamples, packs and encodes off the main thread;
+      // here we only forward finished frames.
+      const vadGate = new VoiceActivityGate(() => sessionManager.getVadConfig());
+
+      const processor = await createPcmCaptureNode(inputCtx, (frame) => {
+        // Local VAD runs on every frame (a muted track is silence, so the gate closes by itself)
+        const vad = vadGate.process(frame);
+        sessionManager.reportVadReading(vad.isSpeaking, frame.rmsDb, frame.flatness);
+        const isLive = connectionStateRef.current === ConnectionState.CONNECTED;
+        const handsFree = captureModeRef.current === 'continuous';
+
+        if (vad.transition) {
+            sessionManager.log('info', 'audio', `VAD gate ${vad.transition === 'open' ? 'opened' : 'closed'}`, {
+                rmsDb: Math.round(frame.rmsDb), flatness: Number(frame.flatness.toFixed(2))
+            });
+            setIsUserSpeaking(vad.isSpeaking);
+            if (thinkingTimerRef.current) clearTimeout(thinkingTimerRef.current);
+
+            // Latency marks are backdated by the gate's own smoothing delay to the real speech edge.
+            // A close while the reply keeps playing was a backchannel, not a new turn.
+            const vadConfig = sessionManager.getVadConfig();
+            const streaming = handsFree && !isMicMutedRef.current;
+            if (isLive && vad.transition === 'open' && jitterBufferRef.current?.isPlaying && (streaming || isTransmittingRef.current)) {
+                latencyMetrics.markBargeInStart(performance.now() - vadConfig.attackMs);
+            } else if (isLive && vad.transition === 'close' && streaming && !jitterBufferRef.current?.isPlaying) {
+                latencyMetrics.markUserTurnEnd('vad', performance.now() - vadConfig.hangoverMs);
+            }
+
+            if (isLive && vad.transition === 'open') {
+                // While the model talks, barge-in is the server's call (it sends interrupted)
+                setVoiceState(prev => prev === VoiceState.SPEAKING ? prev : VoiceState.LISTENING);
+            } else if (isLive && vad.transition === 'close') {
+                setVoiceState(prev => prev === VoiceState.LISTENING ? VoiceState.THINKING : prev);
+                thinkingTimerRef.current = setTimeout(() => {
+                    setVoiceState(prev => prev === VoiceState.THINKING ? VoiceState.LISTENING : prev);
+                }, THINKING_TIMEOUT_MS);
+            }
+        }
+
+        if (isMicMutedRef.current) return;
+        if (!handsFree && !isTransmittingRef.current) return;
+        // Strict Guard: Only stream while a live session is up (frames are dropped while reconnecting)
+        if (!isLive) return;
+        const session = activeSessionRef.current;
+        if (!session) return;
+
+        // Hands-free: the gate decides; hand-held modes: the talk key already did
+        const outgoing = handsFree ? vad.frames : [frame];
+        try {
+            outgoing.forEach(f => session.sendRealtimeInput({ media: { data: f.data, mimeType: f.mimeType } }));
+            // Flush the server's VAD instead of making it wait out silence we no longer send
+            if (handsFree && vad.transition === 'close' && sessionManager.getVadConfig().gateEnabled) {
+                session.sendRealtimeInput({ audioStreamEnd: true });
+            }
+        } catch(e) {
+            console.warn("Send failed", e);
+        }
+      }, captureFrameMs);
+
+      if (connectAttemptRef.current !== currentAttemptId) {
+          processor.port.onmessage = null;
+          stream.getTracks().forEach(t => t.stop());
+          return;
+      }
+      
+      source.connect(inputAnalyser);
+      inputAnalyser.connect(processor);
+      processor.connect(inputCtx.destination);
+      inputSourceRef.current = source;
+      processorRef.current = processor;
+
+      startVolumeAnalysis();
+
+      // Connect to Live API
+      openSession(currentAttemptId, systemInstructionRef.current);
 
     } catch (err) {
       console.error(err);
@@ -406,7 +727,114 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
           cleanupAudioNodes();
       }
     }
-  }, [ensureAudioContexts, startVolumeAnalysis, handleInterruption, systemInstruction, voiceName, cleanupAudioNodes]);
+  }, [sessionManager, latencyMetrics, maintenanceGate, ensureAudioContexts, startVolumeAnalysis, openSession, cleanupAudioNodes, clearReconnectTimer, captureFrameMs]);
+
+  // Maintenance / admin force-disconnect: close the session cleanly and say why in the transcript
+  useEffect(() => maintenanceGate.subscribe(event => {
+    if (event.type === 'maintenance-ended') return;
+    const state = connectionStateRef.current;
+    if (state === ConnectionState.DISCONNECTED || state === ConnectionState.ERROR) return;
+
+    const notice = event.type === 'maintenance-started'
+      ? 'Session ended for system maintenance. You can reconnect once maintenance is over.'
+      : `Session ended by an administrator (${event.reason}).`;
+    sessionManager.log('warn', 'network', 'Live session ended by maintenance gate', { event: event.type, state });
+    disconnect();
+    setTranscripts(prev => [...prev, createSystemItem(notice)]);
+  }), [maintenanceGate, sessionManager, disconnect]);
+
+  // --- Device Hot-Swap ---
+  // Only the mic source node / output sink change; the worklet, analysers and Live session stay up.
+
+  const swapInputDevice = useCallback(async (deviceId: string | null, reason: string) => {
+    const inputCtx = inputContextRef.current;
+    if (!inputCtx || !streamRef.current) return;
+
+    try {
+        const { stream, usedFallback } = await openMicStream(deviceId);
+        const analyser = inputAnalyserRef.current;
+        // Torn down (disconnect / fatal error) while the new device was opening
+        if (inputContextRef.current !== inputCtx || !analyser || !streamRef.current) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
+        }
+
+        const oldStream = streamRef.current;
+        const source = inputCtx.createMediaStreamSource(stream);
+        inputSourceRef.current?.disconnect();
+        source.connect(analyser);
+        inputSourceRef.current = source;
+        streamRef.current = stream;
+        sessionRecorderRef.current?.setMicStream(stream);
+        stream.getAudioTracks().forEach(track => { track.enabled = !isMicMutedRef.current; });
+        oldStream.getTracks().forEach(t => t.stop());
+
+        const label = stream.getAudioTracks()[0]?.label || 'default';
+        sessionManager.log(usedFallback ? 'warn' : 'info', 'audio', `Microphone switched to ${label}`, { reason, deviceId, usedFallback });
+    } catch (e) {
+        sessionManager.log('error', 'audio', 'Microphone switch failed', { reason, deviceId, error: String(e) });
+    }
+  }, [sessionManager]);
+
+  const swapOutputDevice = useCallback(async (deviceId: string | null, reason: string) => {
+    const outputCtx = outputContextRef.current;
+    if (!outputCtx || outputCtx.state === 'closed') return;
+    try {
+        if (await applyOutputDevice(outputCtx, deviceId)) {
+            appliedSinkIdRef.current = deviceId;
+            sessionManager.log('info', 'audio', `Speaker switched to ${deviceId || 'system default'}`, { reason });
+        }
+    } catch (e) {
+        sessionManager.log('error', 'audio', 'Speaker switch failed', { reason, deviceId, error: String(e) });
+    }
+  }, [sessionManager]);
+
+  // On devicechange: leave a device that disappeared, return to the preferred one when it comes back
+  const reconcileDevices = useCallback(async () => {
+    if (!streamRef.current) return;
+    const { inputs, outputs } = await listAudioDevices();
+
+    const track = streamRef.current?.getAudioTracks()[0];
+    const currentId = track?.getSettings().deviceId;
+    const preferredIn = inputDeviceIdRef.current;
+    const preferredInAvailable = !!preferredIn && inputs.some(d => d.deviceId === preferredIn);
+    const currentGone = !track || track.readyState === 'ended' || (!!currentId && !inputs.some(d => d.deviceId === currentId));
+
+    if (currentGone) {
+        swapInputDevice(preferredInAvailable ? preferredIn : null, 'active microphone removed');
+    } else if (preferredInAvailable && currentId !== preferredIn) {
+        swapInputDevice(preferredIn, 'preferred microphone connected');
+    }
+
+    const preferredOut = outputDeviceIdRef.current;
+    const wantedSink = preferredOut && outputs.some(d => d.deviceId === preferredOut) ? preferredOut : null;
+    if (wantedSink !== appliedSinkIdRef.current) {
+        swapOutputDevice(wantedSink, wantedSink ? 'preferred speaker connected' : 'active speaker removed');
+    }
+  }, [swapInputDevice, swapOutputDevice]);
+
+  useEffect(() => {
+    reconcileDevicesRef.current = reconcileDevices;
+  }, [reconcileDevices]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    const onDeviceChange = () => reconcileDevicesRef.current();
+    mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, []);
+
+  // Picker changes apply to a running session immediately
+  useEffect(() => {
+    if (streamRef.current) swapInputDevice(inputDeviceId, 'preference changed');
+  }, [inputDeviceId, swapInputDevice]);
+
+  useEffect(() => {
+    if (outputContextRef.current && outputDeviceId !== appliedSinkIdRef.current) {
+        swapOutputDevice(outputDeviceId, 'preference changed');
+    }
+  }, [outputDeviceId, swapOutputDevice]);
 
   const sendVideoFrame = useCallback((base64Data: string) => {
     if (connectionState === ConnectionState.CONNECTED && activeSessionRef.current) {
@@ -418,6 +846,79 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
     }
   }, [connectionState]);
 
+  // Typed turn: goes in as ordered client content and completes the user's turn
+  const sendText = useCallback((text: string): boolean => {
+    const trimmed = text.trim();
+    const session = activeSessionRef.current;
+    if (!trimmed || connectionStateRef.current !== ConnectionState.CONNECTED || !session) return false;
+
+    try {
+        session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+    } catch (e) {
+        console.error("Error sending text:", e);
+        return false;
+    }
+
+    sessionManager.log('info', 'network', 'Typed turn sent', { chars: trimmed.length });
+    latencyMetrics.markUserTurnEnd('typed');
+    // A typed turn is complete on its own; any speech still being transcribed was a separate turn
+    closeTurn('user');
+    const now = new Date();
+    setTranscripts(prev => [...prev, { id: createTranscriptId('user'), role: 'user', text: trimmed, timestamp: now, endTimestamp: now, isFinal: true, inputMode: 'typed' }]);
+    setVoiceState(VoiceState.THINKING);
+    return true;
+  }, [sessionManager, latencyMetrics, closeTurn]);
+
+  // Reopens an archived transcript for reading; a live session owns the transcript, so only while offline
+  const restoreTranscripts = useCallback((items: TranscriptionItem[]): boolean => {
+    const state = connectionStateRef.current;
+    if (state !== ConnectionState.DISCONNECTED && state !== ConnectionState.ERROR) return false;
+    openTurnsRef.current = { user: null, assistant: null };
+    setTranscripts(items);
+    sessionManager.log('info', 'system', 'Transcript restored from archive', { items: items.length });
+    return true;
+  }, [sessionManager]);
+
+  // --- Push-to-talk / Toggle-to-talk ---
+
+  const startTalking = useCallback(() => {
+    if (captureModeRef.current === 'continuous' || isTransmittingRef.current) return;
+    const session = activeSessionRef.current;
+    if (connectionStateRef.current !== ConnectionState.CONNECTED || !session) return;
+
+    isTransmittingRef.current = true;
+    setIsTransmitting(true);
+    if (jitterBufferRef.current?.isPlaying) latencyMetrics.markBargeInStart();
+    try {
+        // Manual activity start also barges in on a model reply still playing
+        if (manualActivityRef.current) session.sendRealtimeInput({ activityStart: {} });
+    } catch (e) {
+        console.warn("Activity start failed", e);
+    }
+    setVoiceState(VoiceState.LISTENING);
+  }, [latencyMetrics]);
+
+  const stopTalking = useCallback(() => {
+    if (!isTransmittingRef.current) return;
+    isTransmittingRef.current = false;
+    setIsTransmitting(false);
+
+    const session = activeSessionRef.current;
+    if (!session) return;
+    latencyMetrics.markUserTurnEnd('talk-key');
+    try {
+        // Explicit end of turn: the model answers now instead of waiting out a silence timeout
+        session.sendRealtimeInput(manualActivityRef.current ? { activityEnd: {} } : { audioStreamEnd: true });
+    } catch (e) {
+        console.warn("Activity end failed", e);
+    }
+  }, [latencyMetrics]);
+
+  const toggleTalking = useCallback(() => {
+    if (isTransmittingRef.current) stopTalking();
+    else startTalking();
+  }, [startTalking, stopTalking]);
+
   const toggleMic = useCallback(() => {
     if (streamRef.current) {
       const audioTracks = streamRef.current.getAudioTracks();
@@ -439,6 +940,14 @@ export const useGeminiLive = ({ systemInstruction, voiceName }: UseGeminiLivePro
     connect,
     disconnect,
     sendVideoFrame,
+    sendText,
+    restoreTranscripts,
+    isTransmitting,
+    isUserSpeaking,
+    isRecording,
+    startTalking,
+    stopTalking,
+    toggleTalking,
     isMicMuted,
     toggleMic
   };
@@ -0,0 +1,17 @@
+
+import { useEffect, useState } from 'react';
+import { LatencyMetrics, LatencySnapshot } from '../services/LatencyMetrics';
+
+/** Live view of the rolling latency store; re-renders whenever a sample lands. */
+export const useLatencyMetrics = (enabled: boolean = true): LatencySnapshot => {
+  const [snapshot, setSnapshot] = useState<LatencySnapshot>(() => LatencyMetrics.getInstance().getSnapshot());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const metrics = LatencyMetrics.getInstance();
+    setSnapshot(metrics.getSnapshot());
+    return metrics.subscribe(setSnapshot);
+  }, [enabled]);
+
+  return snapshot;
+};
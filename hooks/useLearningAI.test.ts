@@ -0,0 +1,160 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AdminConfig, LearningSource } from '../types';
+import { MaintenanceGate, MaintenanceModeError } from '../services/MaintenanceGate';
+import { useLearningAI } from './useLearningAI';
+
+const api = vi.hoisted(() => ({
+  upload: vi.fn(),
+  get: vi.fn(),
+  delete: vi.fn(),
+  generateContent: vi.fn(),
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    public files = { upload: api.upload, get: api.get, delete: api.delete };
+    public models = { generateContent: api.generateContent };
+  },
+}));
+
+const TRANSCRIPT = JSON.stringify({ segments: [{ start: '00:01', end: '00:04', speaker: 'Host', text: 'Welcome back.' }] });
+
+// Over the inline limit, so it goes through the Files API
+const largeRecording = () => new File([new Uint8Array(15 * 1024 * 1024)], 'lecture.mp4', { type: 'video/mp4' });
+
+const transcribe = async (file: File) => {
+  const { result } = renderHook(() => useLearningAI());
+  let segments: Awaited<ReturnType<typeof result.current.transcribeMedia>> = null;
+  await act(async () => {
+    segments = await result.current.transcribeMedia(file);
+  });
+  return segments;
+};
+
+describe('useLearningAI transcribeMedia', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    api.delete.mockResolvedValue({});
+    api.generateContent.mockResolvedValue({ text: TRANSCRIPT });
+  });
+
+  it('deletes the uploaded recording once the transcript is back', async () => {
+    api.upload.mockResolvedValue({ name: 'files/lecture', state: 'ACTIVE', uri: 'https://files/lecture', mimeType: 'video/mp4' });
+
+    const segments = await transcribe(largeRecording());
+
+    expect(segments).toEqual([{ start: 1, end: 4, speaker: 'Host', text: 'Welcome back.' }]);
+    expect(api.delete).toHaveBeenCalledWith({ name: 'files/lecture' });
+  });
+
+  it('deletes the uploaded recording when transcription fails', async () => {
+    api.upload.mockResolvedValue({ name: 'files/lecture', state: 'ACTIVE', uri: 'https://files/lecture', mimeType: 'video/mp4' });
+    api.generateContent.mockRejectedValue(new Error('quota exceeded'));
+
+    expect(await transcribe(largeRecording())).toBeNull();
+    expect(api.delete).toHaveBeenCalledWith({ name: 'files/lecture' });
+  });
+
+  it('deletes the uploaded recording when processing fails', async () => {
+    api.upload.mockResolvedValue({ name: 'files/lecture', state: 'FAILED' });
+
+    expect(await transcribe(largeRecording())).toBeNull();
+    expect(api.generateContent).not.toHaveBeenCalled();
+    expect(api.delete).toHaveBeenCalledWith({ name: 'files/lecture' });
+  });
+
+  it('drops segments without a readable start time or text', async () => {
+    api.generateContent.mockResolvedValue({ text: JSON.stringify({ segments: [
+      { start: '00:01', text: 'Kept.' },
+      { start: 'soon', text: 'No timestamp.' },
+      { start: '00:05', end: '00:09', text: 42 },
+      { start: '00:10', end: 'later', speaker: '', text: '  Also kept.  ' },
+      null,
+    ] }) });
+
+    const segments = await transcribe(new File([new Uint8Array(64)], 'note.mp3', { type: 'audio/mpeg' }));
+
+    expect(segments).toEqual([{ start: 1, text: 'Kept.' }, { start: 10, text: 'Also kept.' }]);
+  });
+
+  it('sends inline media with a MIME type from the extension when the browser gives none', async () => {
+    await transcribe(new File([new Uint8Array(64)], 'interview.m4a', { type: '' }));
+
+    const [media] = api.generateContent.mock.calls[0][0].contents[0].parts;
+    expect(media.inlineData.mimeType).toBe('audio/mp4');
+    expect(api.upload).not.toHaveBeenCalled();
+    expect(api.delete).not.toHaveBeenCalled();
+  });
+
+  it('refuses with MaintenanceModeError during maintenance, before uploading anything', async () => {
+    const config: AdminConfig = {
+      godMode: false, forceMonetization: false, debugLatency: false, safetyFilters: 'strict',
+      temperature: 0.7, maintenanceMode: true, semanticRetrieval: false,
+    };
+    MaintenanceGate.getInstance().setAdminConfig(config);
+    try {
+      const { result } = renderHook(() => useLearningAI());
+      await expect(result.current.transcribeMedia(largeRecording())).rejects.toBeInstanceOf(MaintenanceModeError);
+      expect(api.upload).not.toHaveBeenCalled();
+      expect(result.current.isGenerating).toBe(false);
+    } finally {
+      MaintenanceGate.getInstance().setAdminConfig({ ...config, maintenanceMode: false });
+    }
+  });
+});
+
+const SOURCE: LearningSource = {
+  id: 'src-1',
+  title: 'Plant Biology Notes',
+  type: 'text',
+  content: 'Chlorophyll absorbs red and blue light and reflects green, which is why leaves look green.',
+  tags: [],
+  createdAt: new Date(0),
+  status: 'ready',
+};
+
+describe('useLearningAI generatePodcastScript', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('keeps well-formed lines and resolves their refs to the excerpts the prompt listed', async () => {
+    api.generateContent.mockResolvedValue({ text: JSON.stringify({ podcast: { title: 'Why Leaves Are Green', script: [
+      { speaker: 'Host', text: 'So why are leaves green?', citations: [] },
+      { speaker: 'Expert', text: 'Chlorophyll reflects green light.', citations: ['C1', '[c1]', 'C9', 7] },
+      { speaker: 'Narrator', text: 'Not one of the two voices.' },
+      { speaker: 'Host', text: { spoken: 'Not text.' } },
+      'Expert: a bare string',
+    ] } }) });
+
+    const { result } = renderHook(() => useLearningAI());
+    let script: Awaited<ReturnType<typeof result.current.generatePodcastScript>> = null;
+    await act(async () => {
+      script = await result.current.generatePodcastScript('Leaf colour', 'Casual', 'Standard', [SOURCE]);
+    });
+
+    expect(script).toEqual({
+      title: 'Why Leaves Are Green',
+      script: [
+        { speaker: 'Host', text: 'So why are leaves green?' },
+        { speaker: 'Expert', text: 'Chlorophyll reflects green light.', citations: [{ kind: 'source', sourceId: 'src-1', chunkId: 'src-1:0', page: undefined, timestamp: undefined }] },
+      ],
+    });
+  });
+
+  it('returns null when the reply has no script', async () => {
+    api.generateContent.mockResolvedValue({ text: JSON.stringify({ title: 'Untitled', script: 'Host: hello' }) });
+
+    const { result } = renderHook(() => useLearningAI());
+    let script: Awaited<ReturnType<typeof result.current.generatePodcastScript>> = null;
+    await act(async () => {
+      script = await result.current.generatePodcastScript('Leaf colour', 'Casual', 'Standard', [SOURCE]);
+    });
+
+    expect(script).toBeNull();
+  });
+});
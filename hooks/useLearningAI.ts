@@ -1,19 +1,83 @@
 
 import { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { LearningSource, PodcastScriptLine, PodcastBlueprint, PodcastType, PodcastChapter } from '../types';
+import { GoogleGenAI, Modality, FileState, Part, createPartFromUri } from '@google/genai';
+import { GroundedAnswer, LearningSource, PodcastScriptLine, PodcastBlueprint, PodcastType, PodcastChapter, SourceChunk, TranscriptSegment } from '../types';
 import { mergeBase64PCM } from '../utils/audioUtils';
+import { parseTimestamp } from '../utils/transcripts';
+import { citationsForRefs, groundAnswer } from '../utils/citations';
+import { GenerationConfigResolver } from '../services/GenerationConfigResolver';
+import { MaintenanceGate } from '../services/MaintenanceGate';
+import { Embedder, SourceRetriever } from '../services/SourceRetriever';
 
 const MODEL_TEXT = 'gemini-3-flash-preview'; 
 const MODEL_AUDIO = 'gemini-2.5-flash-preview-tts'; 
 const MODEL_IMAGE = 'gemini-2.5-flash-image'; 
+const MODEL_EMBEDDING = 'gemini-embedding-001';
 const API_KEY = process.env.API_KEY as string;
+// PDF sources carry "[p. N]" page anchors (see utils/pdfText), transcripts "[12:34]" timestamps
+const SOURCE_ANCHOR_RULE = 'Some sources contain page anchors like "[p. 12]" or timestamps like "[12:34]". When you use material from such a passage, cite it as "p. 12" or "12:34 in <source title>".';
+// Retrieved excerpts are labelled "[C3 · ...]" (see SourceRetriever); utils/citations resolves the refs
+const EXCERPT_REF_RULE = 'Each source excerpt is labelled with a reference such as [C3]. Only use references that appear in SOURCES; never make one up.';
+// Media above this is sent through the Files API; inline requests are capped at 20MB after base64
+const MAX_INLINE_MEDIA_BYTES = 14 * 1024 * 1024;
+const FILE_PROCESSING_POLL_MS = 3000;
+const FILE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+// Browsers leave File.type empty for some media (.m4a, .mov on Windows); Gemini needs a MIME type
+const MEDIA_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+// Source excerpt budgets per prompt (see SourceRetriever); the rest of each prompt is small by comparison
+const BLUEPRINT_CONTEXT_TOKENS = 12000;
+const SCRIPT_CONTEXT_TOKENS = 16000;
+const CHAT_CONTEXT_TOKENS = 6000;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// One segment of the model's transcript ("MM:SS" timestamps); null when it has no usable start or text
+const toTranscriptSegment = (raw: unknown): TranscriptSegment | null => {
+  if (!isRecord(raw) || typeof raw.start !== 'string' || typeof raw.text !== 'string') return null;
+  const start = parseTimestamp(raw.start);
+  const end = typeof raw.end === 'string' ? parseTimestamp(raw.end) : NaN;
+  const text = raw.text.trim();
+  if (Number.isNaN(start) || !text) return null;
+  return {
+    start,
+    end: Number.isNaN(end) ? undefined : end,
+    speaker: typeof raw.speaker === 'string' && raw.speaker ? raw.speaker : undefined,
+    text,
+  };
+};
+
+// One line of a generated script; "citations" are "C#" refs into the excerpts the prompt listed.
+// Lines without a Host/Expert speaker or text are dropped: the TTS voices are keyed by those two names.
+const toScriptLine = (raw: unknown, chunks: SourceChunk[]): PodcastScriptLine | null => {
+  if (!isRecord(raw) || (raw.speaker !== 'Host' && raw.speaker !== 'Expert') || typeof raw.text !== 'string' || !raw.text.trim()) return null;
+  const citations = citationsForRefs(raw.citations, chunks);
+  return { speaker: raw.speaker, text: raw.text, ...(citations.length > 0 ? { citations } : {}) };
+};
 
 export const useLearningAI = () => {
   const [generatingCount, setGeneratingCount] = useState(0);
   const isGenerating = generatingCount > 0;
 
   const getClient = () => new GoogleGenAI({ apiKey: API_KEY });
+  // Admin temperature/safety, read at request time so edits apply to the next generation
+  const generationConfig = GenerationConfigResolver.getInstance();
+  // Every job below checks it before any request goes out and throws MaintenanceModeError while it's closed
+  const maintenanceGate = MaintenanceGate.getInstance();
+  // Picks the source chunks each prompt sees; embeddings are only requested when semantic retrieval is on
+  const retriever = SourceRetriever.getInstance();
+
+  const embed: Embedder = async (texts, taskType) => {
+    const response = await getClient().models.embedContent({ model: MODEL_EMBEDDING, contents: texts, config: { taskType } });
+    return (response.embeddings ?? []).map(e => e.values ?? []);
+  };
 
   const cleanJson = (text: string) => {
     if (!text) return '';
@@ -27,16 +91,23 @@ export const useLearningAI = () => {
     return text.trim();
   };
 
-  // 1. Generate Blueprint (Teaching Mode)
+  /** 1. Generate Blueprint (Teaching Mode). Null when generation fails; throws MaintenanceModeError during maintenance. */
   const generateBlueprint = useCallback(async (
     topic: string,
     audience: string,
     sources: LearningSource[]
   ): Promise<PodcastBlueprint | null> => {
+    maintenanceGate.assertAvailable('Blueprint generation');
     setGeneratingCount(c => c + 1);
     try {
       const ai = getClient();
-      const sourceContext = sources.map(s => `SOURCE (${s.title}): ${s.content.substring(0, 15000)}...`).join('\n\n');
+      const { text: sourceContext } = await retriever.retrieve({
+        purpose: 'Blueprint',
+        queries: [topic],
+        sources,
+        budgetTokens: BLUEPRINT_CONTEXT_TOKENS,
+        fillBudget: true
+      }, embed);
       
       const prompt = `
         You are an expert instructional designer creating a "Teaching Podcast" blueprint.
@@ -53,6 +124,7 @@ export const useLearningAI = () => {
         3. Identify 3-5 "Common Misconceptions" that learners often have about this topic.
         4. Create 3 "Checkpoint Questions" to facilitate reflection.
         5. Extract 3-5 key glossary terms.
+        ${SOURCE_ANCHOR_RULE} Add the page or timestamp to key points where it applies.
         
         OUTPUT JSON:
         {
@@ -77,7 +149,7 @@ export const useLearningAI = () => {
       const response = await ai.models.generateContent({
         model: MODEL_TEXT,
         contents: prompt,
-        config: { responseMimeType: 'application/json' }
+        config: generationConfig.apply('text', { responseMimeType: 'application/json' })
       });
 
       const parsed = JSON.parse(cleanJson(response.text || '{}'));
@@ -90,7 +162,7 @@ export const useLearningAI = () => {
     }
   }, []);
 
-  // 2. Generate Script (Standard or Teaching)
+  /** 2. Generate Script (Standard or Teaching). Null without a usable script; throws MaintenanceModeError during maintenance. */
   const generatePodcastScript = useCallback(async (
     topic: string,
     style: string,
@@ -98,10 +170,20 @@ export const useLearningAI = () => {
     sources: LearningSource[],
     blueprint?: PodcastBlueprint
   ): Promise<{ title: string; script: PodcastScriptLine[] } | null> => {
+    maintenanceGate.assertAvailable('Script generation');
     setGeneratingCount(c => c + 1);
     try {
       const ai = getClient();
-      const sourceContext = sources.map(s => `SOURCE (${s.title}): ${s.content.substring(0, 25000)}...`).join('\n\n');
+      // A blueprint's chapters each pull their own material, so later chapters aren't starved
+      const { text: sourceContext, chunks } = await retriever.retrieve({
+        purpose: 'Podcast script',
+        queries: type === 'Teaching' && blueprint
+          ? [...blueprint.chapters.map(ch => `${ch.title} ${ch.objective} ${ch.keyPoints.join(' ')}`), ...blueprint.misconceptions]
+          : [topic],
+        sources,
+        budgetTokens: SCRIPT_CONTEXT_TOKENS,
+        fillBudget: true
+      }, embed);
       
       let prompt = '';
 
@@ -124,6 +206,7 @@ export const useLearningAI = () => {
             - Explicitly address the "Common Misconceptions" defined in the blueprint (remediate them).
             - Insert "Checkpoints": Have the Host ask the listener a reflective question, pause briefly (narratively), and then the Expert explains the answer.
             - Use analogies and examples from the sources.
+            - ${EXCERPT_REF_RULE} List the excerpts a line draws on in its "citations"; keep references out of the spoken text.
             
             Format the output strictly as JSON.
             
@@ -131,8 +214,8 @@ export const useLearningAI = () => {
             {
               "title": "Episode Title",
               "script": [
-                { "speaker": "Host", "text": "..." },
-                { "speaker": "Expert", "text": "..." }
+                { "speaker": "Host", "text": "...", "citations": [] },
+                { "speaker": "Expert", "text": "...", "citations": ["C3"] }
               ]
             }
          `;
@@ -149,13 +232,14 @@ export const useLearningAI = () => {
             Task: Create a deep-dive podcast script between "Host" (Energetic) and "Expert" (Calm).
             Target Length: 1000-1500 words (approx 7-10 minutes).
             Cover the topic clearly and engagingly.
+            ${EXCERPT_REF_RULE} List the excerpts a line draws on in its "citations"; keep references out of the spoken text.
             
             OUTPUT JSON:
             {
               "title": "Episode Title",
               "script": [
-                { "speaker": "Host", "text": "..." },
-                { "speaker": "Expert", "text": "..." }
+                { "speaker": "Host", "text": "...", "citations": [] },
+                { "speaker": "Expert", "text": "...", "citations": ["C3"] }
               ]
             }
          `;
@@ -164,16 +248,21 @@ export const useLearningAI = () => {
       const response = await ai.models.generateContent({
         model: MODEL_TEXT,
         contents: prompt,
-        config: {
+        config: generationConfig.apply('text', {
           responseMimeType: 'application/json',
-        }
+        })
       });
 
-      const parsed = JSON.parse(cleanJson(response.text || '{}'));
-      const data = parsed.podcast || parsed;
-      
-      if (!data.script || !Array.isArray(data.script)) return null;
-      return data;
+      const parsed: unknown = JSON.parse(cleanJson(response.text || '{}'));
+      const data = isRecord(parsed) && isRecord(parsed.podcast) ? parsed.podcast : parsed;
+
+      if (!isRecord(data) || !Array.isArray(data.script)) return null;
+      return {
+        title: typeof data.title === 'string' && data.title ? data.title : topic,
+        script: data.script
+          .map(line => toScriptLine(line, chunks))
+          .filter((line): line is PodcastScriptLine => line !== null)
+      };
     } catch (e) {
       console.error("Script Gen Error:", e);
       return null;
@@ -182,10 +271,12 @@ export const useLearningAI = () => {
     }
   }, []);
 
+  /** Multi-speaker TTS for a script. Null when no audio comes back; throws MaintenanceModeError during maintenance. */
   const synthesizePodcastAudio = useCallback(async (
     script: PodcastScriptLine[],
     onProgress?: (percentage: number) => void
   ): Promise<string | null> => {
+    maintenanceGate.assertAvailable('Audio synthesis');
     setGeneratingCount(c => c + 1);
     try {
       if (!script || !script.length) throw new Error("Empty script");
@@ -232,7 +323,7 @@ export const useLearningAI = () => {
                   const response = await ai.models.generateContent({
                       model: MODEL_AUDIO,
                       contents: [{ parts: [{ text: prompt }] }],
-                      config: {
+                      config: generationConfig.apply('tts', {
                           responseModalities: [Modality.AUDIO],
                           speechConfig: {
                               multiSpeakerVoiceConfig: {
@@ -242,7 +333,7 @@ export const useLearningAI = () => {
                                   ]
                               }
                           }
-                      }
+                      })
                   });
                   const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
                   if (audioData) {
@@ -297,7 +388,9 @@ export const useLearningAI = () => {
     }
   }, []);
 
+  /** Cover art for an episode. Null when no image comes back; throws MaintenanceModeError during maintenance. */
   const generateCoverImage = useCallback(async (topic: string, style: string): Promise<string | null> => {
+    maintenanceGate.assertAvailable('Cover art generation');
     setGeneratingCount(c => c + 1);
     try {
       const ai = getClient();
@@ -307,7 +400,8 @@ export const useLearningAI = () => {
 
       const response = await ai.models.generateContent({
         model: MODEL_IMAGE, 
-        contents: { parts: [{ text: prompt }] }
+        contents: { parts: [{ text: prompt }] },
+        config: generationConfig.apply('image')
       });
 
       let imageBase64 = null;
@@ -329,48 +423,58 @@ export const useLearningAI = () => {
     }
   }, []);
 
+  /** Tutor answer with source and search citations. Rejects with MaintenanceModeError during maintenance, and with the request error if the model call fails. */
   const chatWithSources = useCallback(async (
     question: string,
     sources: LearningSource[],
     history: { role: 'user' | 'model', text: string }[]
-  ): Promise<string | null> => {
+  ): Promise<GroundedAnswer | null> => {
+     maintenanceGate.assertAvailable('Source Q&A');
      const ai = getClient();
-     const context = sources.map(s => {
-         let content = s.content;
-         if (!content && s.url) {
-             content = `[URL Reference: ${s.url}]`; 
-         }
-         return `SOURCE: ${s.title}\nCONTENT: ${content.substring(0, 20000)}...`;
-     }).join('\n\n');
+     const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.text;
+     const { text: excerpts, chunks } = await retriever.retrieve({
+         purpose: 'Source Q&A',
+         // Follow-ups ("what about the second one?") only make sense with the question before them
+         queries: previousQuestion ? [question, `${previousQuestion} ${question}`] : [question],
+         sources: sources.filter(s => s.content),
+         budgetTokens: CHAT_CONTEXT_TOKENS
+     }, embed);
+     const references = sources.filter(s => !s.content && s.url).map(s => `SOURCE (${s.title}): [URL Reference: ${s.url}]`);
+     const context = [excerpts, ...references].filter(Boolean).join('\n\n');
+     const conversation = history.slice(-6).map(turn => `${turn.role === 'user' ? 'User' : 'Tutor'}: ${turn.text}`).join('\n');
 
      const prompt = `You are a helpful AI Tutor embedded in a Learning Podcast application.
      Your goal is to answer the user's question about the podcast topic comprehensively.
      
      INSTRUCTIONS:
      1. FIRST, check the provided SOURCES below.
-     2. IF the answer is found in the sources, cite them and answer.
+     2. IF the answer is found in the sources, answer from them and put the excerpt reference right after each claim it supports, e.g. "[C3]" or "[C3, C7]".
      3. IF the answer is NOT in the sources, OR if the sources are just URL references/empty, you MUST use the googleSearch tool to find the answer.
+     4. ${EXCERPT_REF_RULE}
      
      SOURCES:
      ${context}
      
+     ${conversation ? `CONVERSATION SO FAR:\n${conversation}` : ''}
+     
      Question: ${question}`;
 
      const response = await ai.models.generateContent({
         model: MODEL_TEXT,
         contents: prompt,
-        config: {
+        config: generationConfig.apply('text', {
             tools: [{ googleSearch: {} }] 
-        }
+        })
      });
-     return response.text || '';
+     return groundAnswer(response.text || '', chunks, response.candidates?.[0]?.groundingMetadata);
   }, []);
 
-  // NEW: Feature 2 - Generate Chapters based on script/context
+  /** Chapters based on script/context. Empty when generation fails; throws MaintenanceModeError during maintenance. */
   const generateChapters = useCallback(async (
       context: string,
       duration: number
   ): Promise<PodcastChapter[]> => {
+      maintenanceGate.assertAvailable('Chapter generation');
       setGeneratingCount(c => c + 1);
       try {
           const ai = getClient();
@@ -392,7 +496,7 @@ export const useLearningAI = () => {
           const response = await ai.models.generateContent({
               model: MODEL_TEXT,
               contents: prompt,
-              config: { responseMimeType: 'application/json' }
+              config: generationConfig.apply('text', { responseMimeType: 'application/json' })
           });
           const parsed = JSON.parse(cleanJson(response.text || '{}'));
           
@@ -412,6 +516,82 @@ export const useLearningAI = () => {
       }
   }, []);
 
+  /** Transcribes local audio/video into timed, speaker-labelled segments. Null on failure; throws MaintenanceModeError during maintenance. */
+  const transcribeMedia = useCallback(async (file: File): Promise<TranscriptSegment[] | null> => {
+      maintenanceGate.assertAvailable('Media transcription');
+      setGeneratingCount(c => c + 1);
+      const ai = getClient();
+      const mimeType = file.type || MEDIA_MIME_TYPES[file.name.toLowerCase().split('.').pop() ?? ''] || 'application/octet-stream';
+      let uploadedName: string | undefined;
+      try {
+          let media: Part;
+          if (file.size <= MAX_INLINE_MEDIA_BYTES) {
+              const data = await new Promise<string>((resolve, reject) => {
+                  const reader = new FileReader();
+                  reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+                  reader.onerror = () => reject(reader.error);
+                  reader.readAsDataURL(file);
+              });
+              media = { inlineData: { mimeType, data } };
+          } else {
+              let uploaded = await ai.files.upload({ file, config: { mimeType, displayName: file.name } });
+              uploadedName = uploaded.name;
+              const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+              while (uploaded.state === FileState.PROCESSING && Date.now() < deadline) {
+                  await new Promise(resolve => setTimeout(resolve, FILE_PROCESSING_POLL_MS));
+                  uploaded = await ai.files.get({ name: uploaded.name! });
+              }
+              if (uploaded.state !== FileState.ACTIVE || !uploaded.uri) throw new Error(`Uploaded media not ready (${uploaded.state})`);
+              media = createPartFromUri(uploaded.uri, uploaded.mimeType || mimeType);
+          }
+
+          const prompt = `
+          Transcribe this recording verbatim.
+          - Split into segments at speaker changes and sentence boundaries, each at most 30 seconds long.
+          - "start" and "end" are timestamps into the recording as "MM:SS" (or "H:MM:SS" past an hour).
+          - Label speakers by name if they are introduced, otherwise "Speaker 1", "Speaker 2", ... consistently.
+          - Leave out filler sounds and background noise.
+
+          OUTPUT JSON:
+          {
+            "segments": [
+              { "start": "MM:SS", "end": "MM:SS", "speaker": "string", "text": "string" }
+            ]
+          }
+          `;
+
+          const response = await ai.models.generateContent({
+              model: MODEL_TEXT,
+              contents: [{ parts: [media, { text: prompt }] }],
+              config: generationConfig.apply('text', { responseMimeType: 'application/json' })
+          });
+          const parsed: unknown = JSON.parse(cleanJson(response.text || '{}'));
+          if (!isRecord(parsed) || !Array.isArray(parsed.segments)) return null;
+
+          return parsed.segments
+              .map(toTranscriptSegment)
+              .filter((seg): seg is TranscriptSegment => seg !== null);
+      } catch (e) {
+          console.error("Transcription error", e);
+          return null;
+      } finally {
+          // Uploads otherwise sit in the project's file storage until they expire
+          if (uploadedName) ai.files.delete({ name: uploadedName }).catch(e => console.warn("Failed to delete uploaded media", e));
+          setGeneratingCount(c => Math.max(0, c - 1));
+      }
+  }, []);
+
+  // Excerpts for prompts built outside this hook (e.g. the lesson tutor's system instruction)
+  const retrieveSourceContext = useCallback(async (
+    purpose: string,
+    queries: string[],
+    sources: LearningSource[],
+    budgetTokens: number
+  ): Promise<string> => {
+    const { text } = await retriever.retrieve({ purpose, queries, sources, budgetTokens, fillBudget: true }, embed);
+    return text;
+  }, []);
+
   return {
     isGenerating,
     generateBlueprint,
@@ -419,6 +599,8 @@ export const useLearningAI = () => {
     synthesizePodcastAudio,
     generateCoverImage,
     chatWithSources,
-    generateChapters
+    generateChapters,
+    transcribeMedia,
+    retrieveSourceContext
   };
 };
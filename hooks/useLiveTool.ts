@@ -0,0 +1,19 @@
+
+import { useEffect, useRef } from 'react';
+import { LiveToolDefinition, ToolRegistry } from '../services/ToolRegistry';
+
+/**
+ * Registers a Live tool for as long as the calling component is mounted. The handler is read
+ * through a ref, so it can close over fresh state without re-registering on every render.
+ */
+export const useLiveTool = <TArgs>(tool: LiveToolDefinition<TArgs>) => {
+  const toolRef = useRef(tool);
+  toolRef.current = tool;
+
+  useEffect(() => {
+    return ToolRegistry.getInstance().register<TArgs>({
+      ...toolRef.current,
+      handler: (args) => toolRef.current.handler(args),
+    });
+  }, [tool.name]);
+};
@@ -0,0 +1,254 @@
+import { AdminConfig } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+
+const ACCESS_STORAGE_KEY = 'nexus.accessControl';
+// Elevation is short-lived; the console also drops it on close
+const ELEVATION_TTL_MS = 15 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 60 * 1000;
+const MIN_PIN_LENGTH = 4;
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
+
+export type Permission =
+    | 'config.temperature'
+    | 'config.debugLatency'
+    | 'config.safetyFilters'
+    | 'config.godMode'
+    | 'config.maintenanceMode'
+    | 'config.broadcast'
+    | 'config.other'
+    | 'config.rollback'
+    | 'memory.wipe'
+    | 'session.forceDisconnect'
+    | 'access.manage';
+
+/** Minimum role for each permission. Editable by admins and persisted. */
+export type RolePolicy = Record<Permission, Role>;
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'config.temperature': 'Change temperature',
+    'config.debugLatency': 'Toggle latency debugging',
+    'config.safetyFilters': 'Change safety filters',
+    'config.godMode': 'Toggle God Mode',
+    'config.maintenanceMode': 'Toggle maintenance mode',
+    'config.broadcast': 'Send / clear broadcasts',
+    'config.other': 'Change other settings',
+    'config.rollback': 'Roll back configuration',
+    'memory.wipe': 'Wipe session memory',
+    'session.forceDisconnect': 'Force disconnect sessions',
+    'access.manage': 'Manage roles and PINs',
+};
+
+export const DEFAULT_ROLE_POLICY: RolePolicy = {
+    'config.temperature': 'operator',
+    'config.debugLatency': 'operator',
+    'config.safetyFilters': 'admin',
+    'config.godMode': 'admin',
+    'config.maintenanceMode': 'operator',
+    'config.broadcast': 'operator',
+    'config.other': 'operator',
+    'config.rollback': 'admin',
+    'memory.wipe': 'admin',
+    'session.forceDisconnect': 'operator',
+    'access.manage': 'admin',
+};
+
+// AdminConfig fields without an entry here (e.g. forceMonetization) fall under config.other
+const FIELD_PERMISSIONS: Partial<Record<keyof AdminConfig, Permission>> = {
+    temperature: 'config.temperature',
+    debugLatency: 'config.debugLatency',
+    safetyFilters: 'config.safetyFilters',
+    godMode: 'config.godMode',
+    maintenanceMode: 'config.maintenanceMode',
+    systemBroadcast: 'config.broadcast',
+};
+
+interface StoredPin {
+    salt: string;
+    hash: string;
+}
+
+interface StoredAccessConfig {
+    policy: RolePolicy;
+    pins: Partial<Record<Exclude<Role, 'viewer'>, StoredPin>>;
+}
+
+export type ElevationResult = 'granted' | 'denied' | 'locked' | 'no-pin';
+
+type AccessListener = () => void;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string) =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+/**
+ * Local role model for the admin console. Everyone starts as a viewer; operator and admin are
+ * reached by entering that role's PIN (salted SHA-256, stored locally) and lapse after a while.
+ * The PIN only keeps casual users out of a shared browser; it is not a server-side control.
+ */
+export class AccessControl {
+    private static instance: AccessControl;
+    private stored: StoredAccessConfig;
+    private role: Role = 'viewer';
+    private elevatedUntil = 0;
+    private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    private failedAttempts = 0;
+    private lockedUntil = 0;
+    private listeners = new Set<AccessListener>();
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {
+        this.stored = this.load();
+    }
+
+    public static getInstance(): AccessControl {
+        if (!AccessControl.instance) {
+            AccessControl.instance = new AccessControl();
+        }
+        return AccessControl.instance;
+    }
+
+    public getRole(): Role {
+        // The expiry timer notifies listeners; this guards reads between it firing and now
+        return this.role !== 'viewer' && Date.now() > this.elevatedUntil ? 'viewer' : this.role;
+    }
+
+    public getElevationExpiry(): number | null {
+        return this.getRole() === 'viewer' ? null : this.elevatedUntil;
+    }
+
+    public getPolicy(): RolePolicy {
+        return this.stored.policy;
+    }
+
+    public hasPin(role: Exclude<Role, 'viewer'>): boolean {
+        return !!this.stored.pins[role];
+    }
+
+    public can(permission: Permission): boolean {
+        return ROLE_RANK[this.getRole()] >= ROLE_RANK[this.stored.policy[permission]];
+    }
+
+    /** Permission check for an action; refusals are logged with what was attempted. */
+    public authorize(permission: Permission, attempted: string = PERMISSION_LABELS[permission]): boolean {
+        if (this.can(permission)) return true;
+        this.sessionManager.log('warn', 'system', `Unauthorized: ${attempted}`, {
+            permission, role: this.getRole(), required: this.stored.policy[permission]
+        });
+        return false;
+    }
+
+    /** Every field the change touches must be allowed; returns the permissions that were missing. */
+    public authorizeConfigChange(changedKeys: (keyof AdminConfig)[], extra: Permission[] = []): Permission[] {
+        const needed = Array.from(new Set([...changedKeys.map(key => FIELD_PERMISSIONS[key] ?? 'config.other' as Permission), ...extra]));
+        const missing = needed.filter(permission => !this.can(permission));
+        if (missing.length > 0) {
+            this.sessionManager.log('warn', 'system', 'Unauthorized: admin config change', {
+                fields: changedKeys, missing, role: this.getRole()
+            });
+        }
+        return missing;
+    }
+
+    public async elevate(role: Exclude<Role, 'viewer'>, pin: string): Promise<ElevationResult> {
+        if (Date.now() < this.lockedUntil) return 'locked';
+        const stored = this.stored.pins[role];
+        if (!stored) return 'no-pin';
+
+        if ((await hashPin(pin, stored.salt)) !== stored.hash) {
+            this.failedAttempts += 1;
+            this.sessionManager.log('warn', 'system', `Failed elevation to ${role}`, { attempts: this.failedAttempts });
+            if (this.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+                this.lockedUntil = Date.now() + LOCKOUT_MS;
+                this.failedAttempts = 0;
+                this.sessionManager.log('warn', 'system', 'Elevation locked after repeated failures', { lockoutMs: LOCKOUT_MS });
+                return 'locked';
+            }
+            return 'denied';
+        }
+
+        this.failedAttempts = 0;
+        this.grant(role);
+        this.sessionManager.log('info', 'system', `Elevated to ${role}`, { expiresInMs: ELEVATION_TTL_MS });
+        return 'granted';
+    }
+
+    public dropElevation(reason: string = 'manual') {
+        if (this.expiryTimer) clearTimeout(this.expiryTimer);
+        this.expiryTimer = null;
+        if (this.role === 'viewer') return;
+        this.sessionManager.log('info', 'system', `Dropped ${this.role} elevation`, { reason });
+        this.role = 'viewer';
+        this.elevatedUntil = 0;
+        this.notify();
+    }
+
+    /**
+     * Sets a role's PIN. Needs `access.manage`, except for the very first admin PIN: with none
+     * set there is nobody to elevate, so whoever bootstraps the console sets it (and becomes admin).
+     */
+    public async setPin(role: Exclude<Role, 'viewer'>, pin: string): Promise<boolean> {
+        const bootstrap = role === 'admin' && !this.stored.pins.admin;
+        if (!bootstrap && !this.authorize('access.manage', `Set ${role} PIN`)) return false;
+        if (pin.length < MIN_PIN_LENGTH) return false;
+
+        const salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+        this.stored = { ...this.stored, pins: { ...this.stored.pins, [role]: { salt, hash: await hashPin(pin, salt) } } };
+        this.persist();
+        this.sessionManager.log('info', 'system', `${role} PIN ${bootstrap ? 'created' : 'changed'}`);
+        if (bootstrap) this.grant('admin');
+        return true;
+    }
+
+    public setPolicy(permission: Permission, role: Role): boolean {
+        if (!this.authorize('access.manage', `Reassign ${permission}`)) return false;
+        // Never let admins lock themselves out of managing access
+        if (permission === 'access.manage' && role !== 'admin') return false;
+        this.sessionManager.log('info', 'system', 'Role policy changed', { permission, from: this.stored.policy[permission], to: role });
+        this.stored = { ...this.stored, policy: { ...this.stored.policy, [permission]: role } };
+        this.persist();
+        return true;
+    }
+
+    public subscribe(listener: AccessListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private grant(role: Exclude<Role, 'viewer'>) {
+        if (this.expiryTimer) clearTimeout(this.expiryTimer);
+        this.role = role;
+        this.elevatedUntil = Date.now() + ELEVATION_TTL_MS;
+        this.expiryTimer = setTimeout(() => this.dropElevation('expired'), ELEVATION_TTL_MS);
+        this.notify();
+    }
+
+    private load(): StoredAccessConfig {
+        try {
+            const raw = localStorage.getItem(ACCESS_STORAGE_KEY);
+            const parsed = raw ? JSON.parse(raw) : {};
+            return { policy: { ...DEFAULT_ROLE_POLICY, ...parsed.policy }, pins: parsed.pins ?? {} };
+        } catch (e) {
+            return { policy: { ...DEFAULT_ROLE_POLICY }, pins: {} };
+        }
+    }
+
+    private persist() {
+        try {
+            localStorage.setItem(ACCESS_STORAGE_KEY, JSON.stringify(this.stored));
+        } catch (e) {
+            this.sessionManager.log('error', 'system', 'Could not persist access control settings', e);
+        }
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
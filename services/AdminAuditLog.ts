@@ -0,0 +1,186 @@
+import { AdminConfig } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+import { downloadBlob } from '../utils/download';
+
+const AUDIT_STORAGE_KEY = 'nexus.adminAudit';
+// Entries are a few hundred bytes; this keeps the log well inside the localStorage quota
+const MAX_ENTRIES = 1000;
+// Slider drags fire a change per step; steps on the same field within this window become one entry
+const COALESCE_MS = 2000;
+
+export type AdminAuditAction = 'baseline' | 'update' | 'rollback' | 'reset';
+
+export interface AdminConfigFieldChange {
+    key: keyof AdminConfig;
+    from: unknown;
+    to: unknown;
+}
+
+export interface AdminAuditEntry {
+    id: string;
+    version: number;
+    timestamp: number;
+    action: AdminAuditAction;
+    reason: string;
+    changes: AdminConfigFieldChange[];
+    previous: AdminConfig; // Full snapshots so any two versions can be diffed or restored
+    config: AdminConfig;
+    rollbackOf?: number; // Version restored by a rollback
+}
+
+export interface AdminConfigUpdateMeta {
+    reason?: string;
+    rollbackTo?: number;
+}
+
+type AuditListener = () => void;
+
+const SAFETY_RANK: Record<AdminConfig['safetyFilters'], number> = { strict: 2, relaxed: 1, off: 0 };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Field-by-field differences from `from` to `to` (undefined and missing count as equal). */
+export const diffAdminConfigs = (from: AdminConfig, to: AdminConfig): AdminConfigFieldChange[] => {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])) as (keyof AdminConfig)[];
+    return keys
+        .filter(key => !sameValue(from[key], to[key]))
+        .map(key => ({ key, from: from[key], to: to[key] }));
+};
+
+/** Changes that loosen model safety; the console insists on a reason for these. */
+export const isSensitiveChange = (from: AdminConfig, to: AdminConfig): boolean =>
+    (!from.godMode && to.godMode) || SAFETY_RANK[to.safetyFilters] < SAFETY_RANK[from.safetyFilters];
+
+export const formatAuditValue = (value: unknown): string =>
+    value === undefined || value === '' ? '—' : typeof value === 'string' ? `"${value}"` : String(value);
+
+/**
+ * Append-only history of AdminConfig changes, persisted to localStorage. Each entry holds the
+ * before/after snapshots, so the console can diff any two versions and roll back to one
+ * (a rollback is itself a new entry, never a rewrite of history).
+ */
+export class AdminAuditLog {
+    private static instance: AdminAuditLog;
+    private entries: AdminAuditEntry[] = [];
+    private listeners = new Set<AuditListener>();
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {
+        this.entries = this.load();
+    }
+
+    public static getInstance(): AdminAuditLog {
+        if (!AdminAuditLog.instance) {
+            AdminAuditLog.instance = new AdminAuditLog();
+        }
+        return AdminAuditLog.instance;
+    }
+
+    /**
+     * AdminConfig itself is not persisted, so every page load starts from defaults. Records that
+     * as a `reset` when it differs from the last logged version (or a `baseline` on first run),
+     * keeping the trail continuous with what is actually in effect.
+     */
+    public recordSessionStart(config: AdminConfig) {
+        const latest = this.getLatest();
+        if (!latest) {
+            this.append({ action: 'baseline', reason: 'Initial configuration', previous: config, config, changes: [] });
+            return;
+        }
+        const changes = diffAdminConfigs(latest.config, config);
+        if (changes.length === 0) return;
+        this.append({ action: 'reset', reason: 'App reloaded; configuration reset to defaults', previous: latest.config, config, changes });
+    }
+
+    /** Records `previous` -> `next`. No-op updates are ignored. */
+    public record(previous: AdminConfig, next: AdminConfig, meta: AdminConfigUpdateMeta = {}) {
+        const changes = diffAdminConfigs(previous, next);
+        if (changes.length === 0) return;
+        const reason = meta.reason?.trim() || (meta.rollbackTo !== undefined ? `Rollback to v${meta.rollbackTo}` : '');
+
+        const latest = this.getLatest();
+        const coalesce = meta.rollbackTo === undefined
+            && latest?.action === 'update'
+            && Date.now() - latest.timestamp < COALESCE_MS
+            && latest.reason === reason
+            && sameValue(latest.changes.map(c => c.key), changes.map(c => c.key))
+            && sameValue(latest.config, previous);
+        if (coalesce && latest) {
+            const merged = diffAdminConfigs(latest.previous, next);
+            this.entries = merged.length === 0
+                ? this.entries.slice(0, -1) // Dragged back to where it started: nothing happened
+                : [...this.entries.slice(0, -1), { ...latest, timestamp: Date.now(), changes: merged, config: next }];
+            this.persist();
+            return;
+        }
+
+        this.append({
+            action: meta.rollbackTo !== undefined ? 'rollback' : 'update',
+            reason,
+            previous,
+            config: next,
+            changes,
+            rollbackOf: meta.rollbackTo,
+        });
+    }
+
+    /** Oldest first. */
+    public list(): AdminAuditEntry[] {
+        return this.entries;
+    }
+
+    public getVersion(version: number): AdminAuditEntry | null {
+        return this.entries.find(e => e.version === version) ?? null;
+    }
+
+    public getLatest(): AdminAuditEntry | null {
+        return this.entries[this.entries.length - 1] ?? null;
+    }
+
+    /** One JSON object per line, oldest first. */
+    public exportNdjson(): string {
+        return this.entries.map(entry => JSON.stringify({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })).join('\n') + '\n';
+    }
+
+    public downloadNdjson() {
+        const blob = new Blob([this.exportNdjson()], { type: 'application/x-ndjson;charset=utf-8' });
+        downloadBlob(blob, `nexus-admin-audit-${new Date().toISOString().slice(0, 10)}.ndjson`);
+        this.sessionManager.log('info', 'system', 'Admin audit log exported', { entries: this.entries.length });
+    }
+
+    public subscribe(listener: AuditListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private append(entry: Omit<AdminAuditEntry, 'id' | 'version' | 'timestamp'>) {
+        const version = (this.getLatest()?.version ?? 0) + 1;
+        const full: AdminAuditEntry = { ...entry, id: `audit-${Date.now()}-${version}`, version, timestamp: Date.now() };
+        this.entries = [...this.entries, full];
+        if (this.entries.length > MAX_ENTRIES) {
+            this.sessionManager.log('warn', 'system', 'Admin audit log full, dropping oldest entries', { dropped: this.entries.length - MAX_ENTRIES });
+            this.entries = this.entries.slice(-MAX_ENTRIES);
+        }
+        this.persist();
+        this.sessionManager.log('info', 'system', `Admin config v${version} (${entry.action})`, { reason: entry.reason, changes: entry.changes });
+    }
+
+    private load(): AdminAuditEntry[] {
+        try {
+            const raw = localStorage.getItem(AUDIT_STORAGE_KEY);
+            const parsed = raw ? JSON.parse(raw) : [];
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    private persist() {
+        try {
+            localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(this.entries));
+        } catch (e) {
+            this.sessionManager.log('error', 'system', 'Could not persist admin audit log', e);
+        }
+        this.listeners.forEach(listener => listener());
+    }
+}
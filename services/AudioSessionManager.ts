@@ -1,5 +1,9 @@
 
 import { AudioTelemetryEvent, TelemetryLevel, TelemetryCategory } from '../types';
+import { DEFAULT_VAD_CONFIG, VadConfig } from '../utils/voiceActivity';
+import { JitterBufferStats } from '../utils/jitterBuffer';
+import { FrameSamplerStats } from '../utils/frameSampler';
+import { downloadBlob } from '../utils/download';
 
 type AudioFocus = 'podcast' | 'call' | 'none';
 export type InterruptMode = 'pause' | 'duck';
@@ -10,6 +14,8 @@ export interface PodcastController {
     fadeTo: (volume: number, duration: number) => Promise<void>;
     getIsPlaying: () => boolean;
     getCurrentTime: () => number;
+    getDuration: () => number;
+    seekTo: (seconds: number) => void;
 }
 
 export class AudioSessionManager {
@@ -26,6 +32,16 @@ export class AudioSessionManager {
     private logBuffer: AudioTelemetryEvent[] = [];
     private readonly MAX_LOGS = 500;
 
+    // Voice activity gate (config is shared; live readings come from the active capture)
+    private vadConfig: VadConfig = { ...DEFAULT_VAD_CONFIG };
+    private vadReading = { isSpeaking: false, rmsDb: -100, flatness: 1 };
+
+    // Live model-audio playback buffer, read on demand by the dashboard
+    private playbackStats: (() => JitterBufferStats) | null = null;
+
+    // Outgoing camera/screen frame sampler, same pull model as playback
+    private visionStats: (() => FrameSamplerStats) | null = null;
+
     private constructor() {
         this.log('info', 'system', 'AudioSessionManager Initialized');
     }
@@ -80,14 +96,7 @@ export class AudioSessionManager {
         };
 
         const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `nexus-debug-${Date.now()}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadBlob(blob, `nexus-debug-${Date.now()}.json`);
         
         this.log('info', 'system', 'Debug bundle exported');
     }
@@ -99,6 +108,41 @@ export class AudioSessionManager {
         this.log('info', 'audio', `Interrupt mode set to ${mode}`);
     }
 
+    // --- Voice Activity Gate ---
+
+    public getVadConfig(): VadConfig {
+        return this.vadConfig;
+    }
+
+    public setVadConfig(updates: Partial<VadConfig>) {
+        this.vadConfig = { ...this.vadConfig, ...updates };
+        this.log('info', 'audio', 'VAD config updated', updates);
+    }
+
+    public reportVadReading(isSpeaking: boolean, rmsDb: number, flatness: number) {
+        this.vadReading = { isSpeaking, rmsDb, flatness };
+    }
+
+    // --- Live Playback Buffer ---
+
+    public registerPlaybackStats(provider: () => JitterBufferStats) {
+        this.playbackStats = provider;
+    }
+
+    public unregisterPlaybackStats() {
+        this.playbackStats = null;
+    }
+
+    // --- Vision Frame Sampler ---
+
+    public registerVisionStats(provider: () => FrameSamplerStats) {
+        this.visionStats = provider;
+    }
+
+    public unregisterVisionStats() {
+        this.visionStats = null;
+    }
+
     public registerPodcast(ctrl: PodcastController) {
         this.podcastCtrl = ctrl;
         this.log('info', 'audio', 'Podcast Controller Registered');
@@ -128,6 +172,18 @@ export class AudioSessionManager {
         }
     }
 
+    // Returns the clamped position actually sought to, or null when no podcast is loaded
+    public seekPodcast(seconds: number): number | null {
+        if (!this.podcastCtrl) {
+            this.log('warn', 'audio', 'Seek ignored: no podcast loaded');
+            return null;
+        }
+        const target = Math.max(0, Math.min(seconds, this.podcastCtrl.getDuration()));
+        this.podcastCtrl.seekTo(target);
+        this.log('info', 'audio', `Podcast seeked to ${target.toFixed(1)}s`);
+        return target;
+    }
+
     public async startCallSession(onStart: () => Promise<void> | void) {
         this.log('info', 'producer', `Starting Call Session. Current focus: ${this.focus}`);
 
@@ -194,7 +250,10 @@ export class AudioSessionManager {
             resumeNeeded: this.resumeNeeded,
             interruptMode: this.interruptMode,
             hasController: !!this.podcastCtrl,
-            podcastTime: this.podcastCtrl?.getCurrentTime() || 0
+            podcastTime: this.podcastCtrl?.getCurrentTime() || 0,
+            vad: { ...this.vadConfig, ...this.vadReading },
+            playback: this.playbackStats?.() ?? null,
+            vision: this.visionStats?.() ?? null
         };
     }
 }
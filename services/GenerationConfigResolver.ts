@@ -0,0 +1,102 @@
+import { GenerateContentConfig, HarmBlockThreshold, HarmCategory, LiveConnectConfig, SafetySetting } from '@google/genai';
+import { AdminConfig } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+
+export type ModelFamily = 'live' | 'text' | 'tts' | 'image';
+
+export const MODEL_FAMILIES: ModelFamily[] = ['live', 'text', 'tts', 'image'];
+
+export type SafetyLevel = AdminConfig['safetyFilters'];
+
+export interface EffectiveGenerationConfig {
+    family: ModelFamily;
+    temperature: number;
+    safetyLevel: SafetyLevel;
+    safetySettings: SafetySetting[] | null; // null = the family's API has no per-request safety settings
+    appliesOn: 'next-request' | 'next-connect';
+}
+
+type GenerationSettings = Pick<AdminConfig, 'temperature' | 'safetyFilters' | 'godMode'>;
+
+const DEFAULT_SETTINGS: GenerationSettings = { temperature: 0.7, safetyFilters: 'strict', godMode: false };
+
+const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+const SAFETY_CATEGORIES: HarmCategory[] = [
+    HarmCategory.HARM_CATEGORY_HARASSMENT,
+    HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+];
+
+const SAFETY_THRESHOLDS: Record<SafetyLevel, HarmBlockThreshold> = {
+    strict: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+    relaxed: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    off: HarmBlockThreshold.OFF,
+};
+
+/** Maps admin settings to what one model family actually accepts. Pure; see the resolver below for the live copy. */
+export const resolveGenerationConfig = (settings: GenerationSettings, family: ModelFamily): EffectiveGenerationConfig => {
+    const temperature = Math.min(TEMPERATURE_RANGE.max, Math.max(TEMPERATURE_RANGE.min, Number.isFinite(settings.temperature) ? settings.temperature : DEFAULT_SETTINGS.temperature));
+    // God mode is documented as disabling the filters, whatever the selector says
+    const safetyLevel: SafetyLevel = settings.godMode ? 'off' : settings.safetyFilters;
+    // Live sessions fix their config at setup and LiveConnectConfig takes no safetySettings
+    const safetySettings = family === 'live'
+        ? null
+        : SAFETY_CATEGORIES.map(category => ({ category, threshold: SAFETY_THRESHOLDS[safetyLevel] }));
+    return { family, temperature, safetyLevel, safetySettings, appliesOn: family === 'live' ? 'next-connect' : 'next-request' };
+};
+
+/**
+ * Process-wide source of the admin generation settings. App pushes AdminConfig in on every
+ * change; request sites read it at call time, so text/TTS/image calls pick up edits on their
+ * next request and Live sessions on their next connect (the Live API can't change them mid-session).
+ */
+export class GenerationConfigResolver {
+    private static instance: GenerationConfigResolver;
+    private settings: GenerationSettings = { ...DEFAULT_SETTINGS };
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {}
+
+    public static getInstance(): GenerationConfigResolver {
+        if (!GenerationConfigResolver.instance) {
+            GenerationConfigResolver.instance = new GenerationConfigResolver();
+        }
+        return GenerationConfigResolver.instance;
+    }
+
+    public setAdminConfig(config: AdminConfig) {
+        const next: GenerationSettings = { temperature: config.temperature, safetyFilters: config.safetyFilters, godMode: config.godMode };
+        if (next.temperature === this.settings.temperature && next.safetyFilters === this.settings.safetyFilters && next.godMode === this.settings.godMode) return;
+        this.sessionManager.log('info', 'system', 'Generation config updated', {
+            from: this.settings,
+            to: next,
+            effectiveSafety: resolveGenerationConfig(next, 'text').safetyLevel,
+        });
+        this.settings = next;
+    }
+
+    public resolve(family: ModelFamily): EffectiveGenerationConfig {
+        return resolveGenerationConfig(this.settings, family);
+    }
+
+    /** Merges the admin settings into a generateContent config; call-site fields other than these are kept. */
+    public apply(family: Exclude<ModelFamily, 'live'>, config: GenerateContentConfig = {}): GenerateContentConfig {
+        const effective = this.resolve(family);
+        return {
+            ...config,
+            temperature: effective.temperature,
+            safetySettings: effective.safetySettings ?? undefined,
+        };
+    }
+
+    /** Fields for LiveConnectConfig, read once per (re)connect. */
+    public applyLive(config: LiveConnectConfig): LiveConnectConfig {
+        return { ...config, temperature: this.resolve('live').temperature };
+    }
+
+    public getEffective(): EffectiveGenerationConfig[] {
+        return MODEL_FAMILIES.map(family => this.resolve(family));
+    }
+}
@@ -0,0 +1,194 @@
+
+import { AudioSessionManager } from './AudioSessionManager';
+
+// How the user's turn ended, which decides what "end of speech" was measured from
+export type TurnEndTrigger = 'vad' | 'talk-key' | 'typed';
+
+export interface LatencyTurnSample {
+    id: string;
+    timestamp: number; // Wall clock when the user's turn ended
+    trigger: TurnEndTrigger;
+    responseMs: number | null; // End of user speech -> first output transcription
+    ttfaMs: number | null; // End of user speech -> first model audio audible (includes pre-buffer)
+}
+
+export interface BargeInSample {
+    id: string;
+    timestamp: number;
+    stopMs: number; // User speech onset over the model -> model playback silenced
+}
+
+export interface LatencySummary {
+    count: number;
+    last: number | null;
+    p50: number | null;
+    p95: number | null;
+}
+
+export interface LatencySnapshot {
+    turns: LatencyTurnSample[];
+    bargeIns: BargeInSample[];
+    response: LatencySummary;
+    ttfa: LatencySummary;
+    bargeInStop: LatencySummary;
+}
+
+interface PendingTurn {
+    endedAt: number; // performance.now() timeline
+    timestamp: number;
+    trigger: TurnEndTrigger;
+    responseMs: number | null;
+    ttfaMs: number | null;
+}
+
+type LatencyListener = (snapshot: LatencySnapshot) => void;
+
+const MAX_SAMPLES = 100;
+
+/** Nearest-rank percentile; null on an empty series. */
+export const percentile = (values: number[], p: number): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length) - 1;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+};
+
+export const summarizeLatency = (values: number[]): LatencySummary => ({
+    count: values.length,
+    last: values.length ? values[values.length - 1] : null,
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+});
+
+/**
+ * Rolling store of measured live-turn latencies. The live hook marks the moments
+ * (end of user speech, first transcription, first audible audio, barge-in onset/stop);
+ * the store turns them into per-turn samples and p50/p95 summaries.
+ */
+export class LatencyMetrics {
+    private static instance: LatencyMetrics;
+
+    private turns: LatencyTurnSample[] = [];
+    private bargeIns: BargeInSample[] = [];
+    private pending: PendingTurn | null = null;
+    private bargeInStartedAt: number | null = null;
+    private listeners = new Set<LatencyListener>();
+    private nextId = 1;
+
+    private constructor() {}
+
+    public static getInstance(): LatencyMetrics {
+        if (!LatencyMetrics.instance) {
+            LatencyMetrics.instance = new LatencyMetrics();
+        }
+        return LatencyMetrics.instance;
+    }
+
+    // --- Turn Marks ---
+
+    /** The user finished a turn. `endedAt` may be backdated (e.g. by the VAD hangover). */
+    public markUserTurnEnd(trigger: TurnEndTrigger, endedAt: number = performance.now()) {
+        // A reply that already started belongs to the previous turn; an unanswered one is superseded
+        this.commitPending();
+        this.pending = { endedAt, timestamp: Date.now() - (performance.now() - endedAt), trigger, responseMs: null, ttfaMs: null };
+    }
+
+    public markFirstTranscription(at: number = performance.now()) {
+        if (!this.pending || this.pending.responseMs !== null) return;
+        this.pending.responseMs = Math.max(0, Math.round(at - this.pending.endedAt));
+    }
+
+    /** `audibleAt` is when the first chunk actually starts playing, after the jitter pre-buffer. */
+    public markFirstAudio(audibleAt: number) {
+        if (!this.pending || this.pending.ttfaMs !== null) return;
+        this.pending.ttfaMs = Math.max(0, Math.round(audibleAt - this.pending.endedAt));
+    }
+
+    /** Server ended or cut the reply: record whatever was measured. */
+    public completeTurn() {
+        // A turn boundary before any reply (e.g. around a tool call) keeps waiting
+        if (this.pending && this.pending.responseMs === null && this.pending.ttfaMs === null) return;
+        this.commitPending();
+    }
+
+    // --- Barge-In Marks ---
+
+    /** User started talking over model audio. Only the first onset of an overlap counts. */
+    public markBargeInStart(at: number = performance.now()) {
+        if (this.bargeInStartedAt === null) this.bargeInStartedAt = at;
+    }
+
+    /** Model playback was flushed. */
+    public markPlaybackStopped(at: number = performance.now()) {
+        if (this.bargeInStartedAt === null) return;
+        const stopMs = Math.max(0, Math.round(at - this.bargeInStartedAt));
+        this.bargeInStartedAt = null;
+        this.bargeIns = [...this.bargeIns, { id: this.createId(), timestamp: Date.now(), stopMs }].slice(-MAX_SAMPLES);
+        AudioSessionManager.getInstance().log('debug', 'audio', `Barge-in stop ${stopMs}ms`, { stopMs });
+        this.emit();
+    }
+
+    /** Model audio ended on its own, so a pending onset was not a barge-in. */
+    public cancelBargeIn() {
+        this.bargeInStartedAt = null;
+    }
+
+    /** Session torn down: partial marks would only produce bogus samples. */
+    public resetPending() {
+        this.pending = null;
+        this.bargeInStartedAt = null;
+    }
+
+    // --- Reads ---
+
+    public getSnapshot(): LatencySnapshot {
+        return {
+            turns: [...this.turns],
+            bargeIns: [...this.bargeIns],
+            response: summarizeLatency(this.turns.flatMap(t => t.responseMs === null ? [] : [t.responseMs])),
+            ttfa: summarizeLatency(this.turns.flatMap(t => t.ttfaMs === null ? [] : [t.ttfaMs])),
+            bargeInStop: summarizeLatency(this.bargeIns.map(b => b.stopMs)),
+        };
+    }
+
+    public subscribe(listener: LatencyListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public clear() {
+        this.turns = [];
+        this.bargeIns = [];
+        this.resetPending();
+        this.emit();
+    }
+
+    private commitPending() {
+        const turn = this.pending;
+        this.pending = null;
+        // Nothing came back (e.g. the user paused mid-thought): not a latency sample
+        if (!turn || (turn.responseMs === null && turn.ttfaMs === null)) return;
+
+        const sample: LatencyTurnSample = {
+            id: this.createId(),
+            timestamp: turn.timestamp,
+            trigger: turn.trigger,
+            responseMs: turn.responseMs,
+            ttfaMs: turn.ttfaMs,
+        };
+        this.turns = [...this.turns, sample].slice(-MAX_SAMPLES);
+        AudioSessionManager.getInstance().log('debug', 'network', `Turn latency: response ${sample.responseMs ?? '-'}ms, TTFA ${sample.ttfaMs ?? '-'}ms`, sample);
+        this.emit();
+    }
+
+    private createId() {
+        return `lat-${this.nextId++}`;
+    }
+
+    private emit() {
+        const snapshot = this.getSnapshot();
+        this.listeners.forEach(listener => listener(snapshot));
+    }
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GeminiLiveTransport, resolveLiveTransport } from './LiveTransport';
+import { MockLiveTransport, WebSocketLiveTransport } from './MockLiveTransport';
+
+const withQuery = (search: string) => window.history.replaceState(null, '', `/${search}`);
+
+describe('resolveLiveTransport', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    withQuery('');
+  });
+
+  it('defaults to Gemini', () => {
+    expect(resolveLiveTransport()).toBeInstanceOf(GeminiLiveTransport);
+  });
+
+  it('picks the mock or a local mock server in dev builds', () => {
+    vi.stubEnv('DEV', true);
+    withQuery('?liveTransport=mock');
+    expect(resolveLiveTransport()).toBeInstanceOf(MockLiveTransport);
+    withQuery('?liveTransport=ws://localhost:8787');
+    expect(resolveLiveTransport()).toBeInstanceOf(WebSocketLiveTransport);
+    withQuery('?liveTransport=ws://127.0.0.1:8787');
+    expect(resolveLiveTransport()).toBeInstanceOf(WebSocketLiveTransport);
+  });
+
+  it('ignores remote servers even in dev builds', () => {
+    vi.stubEnv('DEV', true);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    withQuery('?liveTransport=wss://evil.example.com/live');
+    expect(resolveLiveTransport()).toBeInstanceOf(GeminiLiveTransport);
+    withQuery('?liveTransport=ws://localhost.evil.example.com');
+    expect(resolveLiveTransport()).toBeInstanceOf(GeminiLiveTransport);
+  });
+
+  it('ignores the parameter in production builds', () => {
+    vi.stubEnv('DEV', false);
+    withQuery('?liveTransport=mock');
+    expect(resolveLiveTransport()).toBeInstanceOf(GeminiLiveTransport);
+    withQuery('?liveTransport=ws://localhost:8787');
+    expect(resolveLiveTransport()).toBeInstanceOf(GeminiLiveTransport);
+  });
+});
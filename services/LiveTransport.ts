@@ -0,0 +1,67 @@
+
+import { GoogleGenAI, LiveCallbacks, LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { MockLiveTransport, WebSocketLiveTransport } from './MockLiveTransport';
+import { BARGE_IN_FIXTURE } from '../fixtures/live/bargeIn';
+
+const API_KEY = process.env.API_KEY as string;
+
+export interface LiveTransportConnectParams {
+    model: string;
+    config: LiveConnectConfig;
+    callbacks: LiveCallbacks; // Messages are shaped like LiveServerMessage regardless of backend
+}
+
+// The subset of the SDK Session the live hook relies on
+export interface LiveTransportSession {
+    sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+    sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+    sendClientContent: (params: LiveSendClientContentParameters) => void;
+    close: () => void;
+}
+
+export interface LiveTransport {
+    readonly name: string;
+    connect: (params: LiveTransportConnectParams) => Promise<LiveTransportSession>;
+}
+
+// --- Gemini Live (default) ---
+
+export class GeminiLiveTransport implements LiveTransport {
+    public readonly name = 'gemini';
+
+    public async connect({ model, config, callbacks }: LiveTransportConnectParams): Promise<LiveTransportSession> {
+        if (!API_KEY) {
+            throw new Error("API Key is missing. Check process.env.API_KEY");
+        }
+        const ai = new GoogleGenAI({ apiKey: API_KEY });
+        return ai.live.connect({ model, config, callbacks });
+    }
+}
+
+// Mock servers run next to the dev server; mic audio and the setup payload never leave the machine
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+const isLocalSocketUrl = (value: string): boolean => {
+    try {
+        const url = new URL(value);
+        return (url.protocol === 'ws:' || url.protocol === 'wss:') && LOCAL_HOSTS.has(url.hostname);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Picks the transport for this page load. Production builds always use Gemini. In dev builds
+ * `?liveTransport=mock` replays the bundled barge-in fixture in-process, and
+ * `?liveTransport=ws://localhost:port` talks to a local mock server (see WebSocketLiveTransport
+ * for the wire format); other hosts are ignored.
+ */
+export const resolveLiveTransport = (): LiveTransport => {
+    if (!import.meta.env.DEV || typeof window === 'undefined') return new GeminiLiveTransport();
+
+    const param = new URLSearchParams(window.location.search).get('liveTransport');
+    if (param === 'mock') return new MockLiveTransport(BARGE_IN_FIXTURE);
+    if (param && isLocalSocketUrl(param)) return new WebSocketLiveTransport(param);
+    if (param) console.warn(`Ignoring liveTransport=${param}: only "mock" or a ws:// URL on localhost is allowed`);
+    return new GeminiLiveTransport();
+};
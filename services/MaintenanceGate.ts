@@ -0,0 +1,84 @@
+import { AdminConfig } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+
+/** Thrown when a live connect or generation job is attempted while maintenance mode is on. */
+export class MaintenanceModeError extends Error {
+    public readonly code = 'MAINTENANCE_MODE';
+
+    constructor(public readonly operation: string) {
+        super(`${operation} is unavailable while Nexus Voice is in maintenance mode.`);
+        this.name = 'MaintenanceModeError';
+    }
+}
+
+export type MaintenanceEvent =
+    | { type: 'maintenance-started' }
+    | { type: 'maintenance-ended' }
+    | { type: 'force-disconnect'; reason: string };
+
+type MaintenanceListener = (event: MaintenanceEvent) => void;
+
+/**
+ * Process-wide maintenance switch. App pushes AdminConfig in; live sessions subscribe so they can
+ * end themselves, and request sites call `assertAvailable` before starting work. Every transition
+ * and every refusal lands in the telemetry log.
+ */
+export class MaintenanceGate {
+    private static instance: MaintenanceGate;
+    private active = false;
+    private broadcast: string | null = null;
+    private listeners = new Set<MaintenanceListener>();
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {}
+
+    public static getInstance(): MaintenanceGate {
+        if (!MaintenanceGate.instance) {
+            MaintenanceGate.instance = new MaintenanceGate();
+        }
+        return MaintenanceGate.instance;
+    }
+
+    public setAdminConfig(config: AdminConfig) {
+        const broadcast = config.systemBroadcast?.trim() || null;
+        if (broadcast !== this.broadcast) {
+            this.sessionManager.log('info', 'system', broadcast ? 'System broadcast set' : 'System broadcast cleared', { from: this.broadcast, to: broadcast });
+            this.broadcast = broadcast;
+        }
+
+        if (config.maintenanceMode === this.active) return;
+        this.active = config.maintenanceMode;
+        this.sessionManager.log(this.active ? 'warn' : 'info', 'system', this.active ? 'Maintenance mode enabled' : 'Maintenance mode disabled', { listeners: this.listeners.size });
+        this.emit({ type: this.active ? 'maintenance-started' : 'maintenance-ended' });
+    }
+
+    public isActive(): boolean {
+        return this.active;
+    }
+
+    public getBroadcast(): string | null {
+        return this.broadcast;
+    }
+
+    /** Throws MaintenanceModeError (and audits the refusal) when the gate is closed. */
+    public assertAvailable(operation: string) {
+        if (!this.active) return;
+        this.sessionManager.log('warn', 'system', `Refused during maintenance: ${operation}`);
+        throw new MaintenanceModeError(operation);
+    }
+
+    /** Ends every live session in this client, whether or not maintenance mode is on. */
+    public forceDisconnectAll(reason: string) {
+        this.sessionManager.log('warn', 'system', 'Force disconnect requested', { reason, listeners: this.listeners.size });
+        this.emit({ type: 'force-disconnect', reason });
+    }
+
+    public subscribe(listener: MaintenanceListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private emit(event: MaintenanceEvent) {
+        this.listeners.forEach(listener => listener(event));
+    }
+}
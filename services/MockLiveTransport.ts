@@ -0,0 +1,200 @@
+
+import { LiveServerMessage, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import { LiveTransport, LiveTransportConnectParams, LiveTransportSession } from './LiveTransport';
+
+const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+
+export interface LiveFixtureEvent {
+    delayMs: number; // Wait after the previous event
+    afterInputFrames?: number; // Hold until the client has sent at least this many realtime inputs
+    message?: Partial<LiveServerMessage>; // LiveServerMessage fields, as sent over the wire
+    tone?: { hz: number; ms: number }; // Shorthand for a synthesized model audio chunk
+    close?: { code: number; reason?: string }; // Simulate the server dropping the socket
+}
+
+export interface LiveFixture {
+    name: string;
+    description?: string;
+    events: LiveFixtureEvent[];
+}
+
+const toServerMessage = (json: Partial<LiveServerMessage>): LiveServerMessage =>
+    Object.assign(new LiveServerMessage(), json);
+
+// Sine tone as base64 Int16 PCM, matching what the Live API sends for model audio
+const synthesizeTone = (hz: number, ms: number): string => {
+    const length = Math.round((MOCK_OUTPUT_SAMPLE_RATE * ms) / 1000);
+    const int16 = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+        int16[i] = Math.sin((2 * Math.PI * hz * i) / MOCK_OUTPUT_SAMPLE_RATE) * 0x2000;
+    }
+    const bytes = new Uint8Array(int16.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+};
+
+const expandEvent = (event: LiveFixtureEvent): LiveServerMessage | null => {
+    if (event.tone) {
+        return toServerMessage({
+            serverContent: {
+                modelTurn: {
+                    role: 'model',
+                    parts: [{ inlineData: { mimeType: `audio/pcm;rate=${MOCK_OUTPUT_SAMPLE_RATE}`, data: synthesizeTone(event.tone.hz, event.tone.ms) } }]
+                }
+            }
+        });
+    }
+    return event.message ? toServerMessage(event.message) : null;
+};
+
+export class MockLiveSession implements LiveTransportSession {
+    // Everything the client sent, for assertions in tests
+    public readonly sent: LiveSendRealtimeInputParameters[] = [];
+    public readonly toolResponses: LiveSendToolResponseParameters[] = [];
+    public readonly clientContent: LiveSendClientContentParameters[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+    private pendingInput: (() => void) | null = null;
+
+    constructor(private fixture: LiveFixture, private params: LiveTransportConnectParams) {}
+
+    public start() {
+        this.runEvent(0);
+    }
+
+    public sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+        if (this.closed) return;
+        this.sent.push(params);
+        if (this.pendingInput) this.pendingInput();
+    }
+
+    public sendToolResponse(params: LiveSendToolResponseParameters) {
+        if (this.closed) return;
+        this.toolResponses.push(params);
+    }
+
+    public sendClientContent(params: LiveSendClientContentParameters) {
+        if (this.closed) return;
+        this.clientContent.push(params);
+    }
+
+    public close() {
+        this.shutdown({ code: 1000, reason: 'Client closed' });
+    }
+
+    private get inputFrames() {
+        return this.sent.filter(p => p.media || p.audio).length;
+    }
+
+    private runEvent(index: number) {
+        if (this.closed || index >= this.fixture.events.length) return;
+        const event = this.fixture.events[index];
+
+        const fire = () => {
+            this.timer = null;
+            if (this.closed) return;
+            if (event.close) {
+                this.shutdown(event.close);
+                return;
+            }
+            const msg = expandEvent(event);
+            if (msg) this.params.callbacks.onmessage(msg);
+            this.runEvent(index + 1);
+        };
+
+        const schedule = () => {
+            this.timer = setTimeout(fire, event.delayMs);
+        };
+
+        if (event.afterInputFrames && this.inputFrames < event.afterInputFrames) {
+            this.pendingInput = () => {
+                if (this.inputFrames < event.afterInputFrames!) return;
+                this.pendingInput = null;
+                schedule();
+            };
+            return;
+        }
+        schedule();
+    }
+
+    private shutdown(close: { code: number; reason?: string }) {
+        if (this.closed) return;
+        this.closed = true;
+        this.pendingInput = null;
+        if (this.timer) clearTimeout(this.timer);
+        this.params.callbacks.onclose?.({ code: close.code, reason: close.reason || '' } as CloseEvent);
+    }
+}
+
+/**
+ * In-process transport that replays a scripted fixture. No network, no API key: used to
+ * exercise turn-taking, barge-in and reconnect handling deterministically.
+ */
+export class MockLiveTransport implements LiveTransport {
+    public readonly name = 'mock';
+    public lastSession: MockLiveSession | null = null;
+
+    constructor(private fixture: LiveFixture) {}
+
+    public async connect(params: LiveTransportConnectParams): Promise<LiveTransportSession> {
+        const session = new MockLiveSession(this.fixture, params);
+        this.lastSession = session;
+        // Mirror the SDK: onopen fires before connect() resolves
+        await Promise.resolve();
+        params.callbacks.onopen?.();
+        session.start();
+        return session;
+    }
+}
+
+/**
+ * Transport for a local mock server. Wire format (JSON text frames):
+ *   client -> server: { setup: { model, config } } once on open, then { realtimeInput: {...} }
+ *                     or { toolResponse: { functionResponses: [...] } } or { clientContent: { turns, turnComplete } }
+ *   server -> client: LiveServerMessage JSON ({ serverContent: {...} }, { setupComplete: {} }, ...)
+ */
+export class WebSocketLiveTransport implements LiveTransport {
+    public readonly name = 'websocket';
+
+    constructor(private url: string) {}
+
+    public connect({ model, config, callbacks }: LiveTransportConnectParams): Promise<LiveTransportSession> {
+        return new Promise((resolve, reject) => {
+            const ws = new WebSocket(this.url);
+            let opened = false;
+
+            const session: LiveTransportSession = {
+                sendRealtimeInput: (params) => {
+                    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ realtimeInput: params }));
+                },
+                sendToolResponse: (params) => {
+                    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ toolResponse: params }));
+                },
+                sendClientContent: (params) => {
+                    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ clientContent: params }));
+                },
+                close: () => ws.close(),
+            };
+
+            ws.onopen = () => {
+                opened = true;
+                ws.send(JSON.stringify({ setup: { model, config } }));
+                callbacks.onopen?.();
+                resolve(session);
+            };
+            ws.onmessage = (e) => {
+                try {
+                    callbacks.onmessage(toServerMessage(JSON.parse(e.data)));
+                } catch (err) {
+                    console.warn("Mock server sent an unreadable frame", err);
+                }
+            };
+            ws.onerror = (e) => {
+                if (!opened) reject(new Error(`Mock server unreachable at ${this.url}`));
+                else callbacks.onerror?.(e as ErrorEvent);
+            };
+            ws.onclose = (e) => callbacks.onclose?.(e);
+        });
+    }
+}
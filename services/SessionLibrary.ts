@@ -0,0 +1,107 @@
+
+import { SessionRecording } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+
+const DB_NAME = 'nexus.sessions';
+const DB_VERSION = 1;
+const STORE = 'recordings';
+
+type LibraryListener = () => void;
+
+// IndexedDB hands back plain objects; Dates inside the transcript need reviving
+const reviveRecording = (raw: SessionRecording): SessionRecording => ({
+    ...raw,
+    transcript: raw.transcript.map(item => ({ ...item, timestamp: new Date(item.timestamp) })),
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Local library of recorded live sessions. Audio blobs are too large for localStorage,
+ * so recordings live in IndexedDB and survive reloads.
+ */
+export class SessionLibrary {
+    private static instance: SessionLibrary;
+
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private listeners = new Set<LibraryListener>();
+
+    private constructor() {}
+
+    public static getInstance(): SessionLibrary {
+        if (!SessionLibrary.instance) {
+            SessionLibrary.instance = new SessionLibrary();
+        }
+        return SessionLibrary.instance;
+    }
+
+    /** Newest first. */
+    public async list(): Promise<SessionRecording[]> {
+        const store = await this.getStore('readonly');
+        const all = await requestToPromise(store.getAll() as IDBRequest<SessionRecording[]>);
+        return all.map(reviveRecording).sort((a, b) => b.startedAt - a.startedAt);
+    }
+
+    public async get(id: string): Promise<SessionRecording | null> {
+        const store = await this.getStore('readonly');
+        const raw = await requestToPromise(store.get(id) as IDBRequest<SessionRecording | undefined>);
+        return raw ? reviveRecording(raw) : null;
+    }
+
+    public async save(recording: SessionRecording): Promise<void> {
+        const store = await this.getStore('readwrite');
+        await requestToPromise(store.put(recording));
+        AudioSessionManager.getInstance().log('info', 'system', `Session recording saved: ${recording.title}`, {
+            id: recording.id, durationMs: recording.durationMs, bytes: recording.audio.size, items: recording.transcript.length
+        });
+        this.emit();
+    }
+
+    public async remove(id: string): Promise<void> {
+        const store = await this.getStore('readwrite');
+        await requestToPromise(store.delete(id));
+        this.emit();
+    }
+
+    public subscribe(listener: LibraryListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.open();
+        return db.transaction(STORE, mode).objectStore(STORE);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('IndexedDB is not available in this browser'));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE)) {
+                        request.result.createObjectStore(STORE, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Let a later call retry after a transient failure (e.g. blocked upgrade)
+            this.dbPromise.catch(() => { this.dbPromise = null; });
+        }
+        return this.dbPromise;
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -0,0 +1,207 @@
+import { AdminConfig, LearningSource, SourceChunk } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+import { Bm25Document, chunkSource, cosineSimilarity, scoreBm25, toBm25Document } from '../utils/sourceChunks';
+import { chunkRef } from '../utils/citations';
+
+/** Embeds texts for retrieval; supplied by the caller that owns the API client. */
+export type Embedder = (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY') => Promise<number[][]>;
+
+export interface RetrievalRequest {
+    purpose: string; // Names the prompt in the telemetry log
+    queries: string[]; // Picks alternate between queries, so each one gets a share of the budget
+    sources: LearningSource[];
+    budgetTokens: number;
+    // Spend leftover budget on the parts of each source nothing matched (generation wants coverage, Q&A doesn't)
+    fillBudget?: boolean;
+}
+
+export interface RetrievedContext {
+    chunks: SourceChunk[]; // Source order, then document order; chunks[n - 1] is labelled "Cn" in text
+    text: string; // Prompt-ready excerpts grouped by source
+    tokens: number;
+    totalChunks: number;
+    complete: boolean; // Every chunk fit, nothing was left out
+}
+
+interface IndexedSource {
+    content: string;
+    chunks: SourceChunk[];
+    docs: Bm25Document[];
+    vectors?: number[][];
+}
+
+const EMBED_BATCH_SIZE = 100;
+// Share of the blended score taken by embedding similarity when semantic retrieval is on
+const SEMANTIC_WEIGHT = 0.5;
+
+// "[C3 · p. 12 · Safety]": the reference prompts cite (see utils/citations), then where the excerpt sits
+const chunkLabel = (chunk: SourceChunk, position: number) =>
+    `[${chunkRef(position)}${chunk.page ? ` · p. ${chunk.page}` : ''}${chunk.heading ? ` · ${chunk.heading}` : ''}]`;
+
+/**
+ * Process-wide chunk index over learning sources. Prompts ask for the chunks most relevant to
+ * their queries within a token budget instead of truncating each source; BM25 always ranks,
+ * embeddings join in when an admin enables semantic retrieval. Sources are re-chunked only
+ * when their content changes, and every retrieval is logged with the chunk ids it used.
+ */
+export class SourceRetriever {
+    private static instance: SourceRetriever;
+    private index = new Map<string, IndexedSource>();
+    private semantic = false;
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {}
+
+    public static getInstance(): SourceRetriever {
+        if (!SourceRetriever.instance) {
+            SourceRetriever.instance = new SourceRetriever();
+        }
+        return SourceRetriever.instance;
+    }
+
+    public setAdminConfig(config: AdminConfig) {
+        if (config.semanticRetrieval === this.semantic) return;
+        this.semantic = config.semanticRetrieval;
+        this.sessionManager.log('info', 'retrieval', `Semantic retrieval ${this.semantic ? 'enabled' : 'disabled'}`);
+    }
+
+    public getChunks(source: LearningSource): SourceChunk[] {
+        return this.indexed(source).chunks;
+    }
+
+    public async retrieve(request: RetrievalRequest, embed?: Embedder): Promise<RetrievedContext> {
+        const entries = request.sources.map(s => this.indexed(s));
+        const chunks = entries.flatMap(e => e.chunks);
+        const totalTokens = chunks.reduce((n, c) => n + c.tokens, 0);
+        let method = 'all';
+        let selected: Set<string>;
+
+        if (totalTokens <= request.budgetTokens) {
+            selected = new Set(chunks.map(c => c.id));
+        } else {
+            const queries = request.queries.map(q => q.trim()).filter(Boolean);
+            const docs = entries.flatMap(e => e.docs);
+            let rankings = queries.map(q => scoreBm25(q, docs));
+            method = 'bm25';
+
+            if (this.semantic && embed && queries.length > 0) {
+                try {
+                    const similarities = await this.similarities(entries, queries, embed);
+                    rankings = rankings.map((lexical, q) => {
+                        const max = lexical.reduce((m, score) => Math.max(m, score), 0) || 1;
+                        return lexical.map((score, i) => (1 - SEMANTIC_WEIGHT) * score / max + SEMANTIC_WEIGHT * similarities[q][i]);
+                    });
+                    method = 'hybrid';
+                } catch (e) {
+                    this.sessionManager.log('warn', 'retrieval', 'Embedding failed; ranking with BM25 only', e);
+                }
+            }
+            selected = this.select(chunks, rankings, request.budgetTokens, request.fillBudget ?? false);
+        }
+
+        const picked = chunks.filter(c => selected.has(c.id));
+        const text = request.sources.map(source => {
+            const own = picked.filter(c => c.sourceId === source.id);
+            if (own.length === 0) return '';
+            const total = entries[request.sources.indexOf(source)].chunks.length;
+            const header = own.length === total ? `SOURCE (${source.title}):` : `SOURCE (${source.title}), ${own.length} of ${total} excerpts:`;
+            return [header, ...own.map(c => `${chunkLabel(c, picked.indexOf(c) + 1)}\n${c.text}`)].join('\n\n');
+        }).filter(Boolean).join('\n\n');
+
+        const result: RetrievedContext = {
+            chunks: picked,
+            text,
+            tokens: picked.reduce((n, c) => n + c.tokens, 0),
+            totalChunks: chunks.length,
+            complete: picked.length === chunks.length,
+        };
+        this.sessionManager.log('info', 'retrieval', `${request.purpose}: ${picked.length}/${chunks.length} chunks, ~${result.tokens} tokens`, {
+            method,
+            budgetTokens: request.budgetTokens,
+            queries: request.queries,
+            chunks: picked.map(c => c.id),
+        });
+        return result;
+    }
+
+    private indexed(source: LearningSource): IndexedSource {
+        const cached = this.index.get(source.id);
+        if (cached && cached.content === source.content) return cached;
+        const chunks = chunkSource(source);
+        const entry: IndexedSource = {
+            content: source.content,
+            chunks,
+            // Headings count towards the match: a chunk under "Installation" is about installation
+            docs: chunks.map(c => toBm25Document(c.heading ? `${c.heading}\n${c.text}` : c.text)),
+        };
+        this.index.set(source.id, entry);
+        return entry;
+    }
+
+    // Cosine similarity of every chunk to every query, embedding chunks once per content version
+    private async similarities(entries: IndexedSource[], queries: string[], embed: Embedder): Promise<number[][]> {
+        for (const entry of entries) {
+            if (entry.vectors) continue;
+            const vectors: number[][] = [];
+            for (let i = 0; i < entry.chunks.length; i += EMBED_BATCH_SIZE) {
+                vectors.push(...await embed(entry.chunks.slice(i, i + EMBED_BATCH_SIZE).map(c => c.text), 'RETRIEVAL_DOCUMENT'));
+            }
+            if (vectors.length !== entry.chunks.length) throw new Error(`Expected ${entry.chunks.length} embeddings, got ${vectors.length}`);
+            entry.vectors = vectors;
+        }
+        const queryVectors = await embed(queries, 'RETRIEVAL_QUERY');
+        const chunkVectors = entries.flatMap(e => e.vectors!);
+        return queries.map((_, q) => chunkVectors.map(v => Math.max(0, cosineSimilarity(queryVectors[q] ?? [], v))));
+    }
+
+    private select(chunks: SourceChunk[], rankings: number[][], budget: number, fill: boolean): Set<string> {
+        const selected = new Set<string>();
+        let used = 0;
+        const take = (chunk: SourceChunk) => {
+            if (selected.has(chunk.id) || used + chunk.tokens > budget) return false;
+            selected.add(chunk.id);
+            used += chunk.tokens;
+            return true;
+        };
+
+        // Round-robin over the queries' rankings so a broad query can't starve a narrow one
+        const orders = rankings.map(scores => chunks
+            .map((chunk, i) => ({ chunk, score: scores[i] }))
+            .filter(r => r.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .map(r => r.chunk));
+        const cursors = orders.map(() => 0);
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            orders.forEach((order, q) => {
+                while (cursors[q] < order.length) {
+                    if (take(order[cursors[q]++])) {
+                        progressed = true;
+                        break;
+                    }
+                }
+            });
+        }
+
+        if (fill) {
+            // Farthest-first over each source's chunk positions: openings first, then the largest unread gaps
+            const distance = chunks.map(() => Infinity);
+            const mark = (picked: SourceChunk) => chunks.forEach((c, i) => {
+                if (c.sourceId === picked.sourceId) distance[i] = Math.min(distance[i], Math.abs(c.index - picked.index));
+            });
+            chunks.filter(c => selected.has(c.id)).forEach(mark);
+            for (;;) {
+                let best = -1;
+                chunks.forEach((c, i) => {
+                    if (selected.has(c.id) || used + c.tokens > budget) return;
+                    if (best === -1 || distance[i] > distance[best]) best = i;
+                });
+                if (best === -1) break;
+                take(chunks[best]);
+                mark(chunks[best]);
+            }
+        }
+        return selected;
+    }
+}
@@ -0,0 +1,92 @@
+
+import { FunctionCall, FunctionResponse, Tool } from '@google/genai';
+import { AudioSessionManager } from './AudioSessionManager';
+
+// JSON Schema for the tool arguments (sent as parametersJsonSchema)
+export interface ToolJsonSchema {
+    type: 'object';
+    properties: Record<string, { type: string; description?: string; enum?: string[] }>;
+    required?: string[];
+}
+
+export interface LiveToolDefinition<TArgs = Record<string, any>> {
+    name: string;
+    description: string;
+    parameters: ToolJsonSchema;
+    handler: (args: TArgs) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Process-wide registry of functions the Live model may call. Components register tools
+ * while mounted (see useLiveTool); the set is snapshotted into the session config on connect.
+ */
+export class ToolRegistry {
+    private static instance: ToolRegistry;
+    private tools = new Map<string, LiveToolDefinition<any>>();
+    private sessionManager = AudioSessionManager.getInstance();
+
+    private constructor() {}
+
+    public static getInstance(): ToolRegistry {
+        if (!ToolRegistry.instance) {
+            ToolRegistry.instance = new ToolRegistry();
+        }
+        return ToolRegistry.instance;
+    }
+
+    /** Registers a tool and returns its unregister function. Re-registering a name replaces it. */
+    public register<TArgs>(tool: LiveToolDefinition<TArgs>): () => void {
+        this.tools.set(tool.name, tool);
+        this.sessionManager.log('info', 'tools', `Tool registered: ${tool.name}`);
+        return () => {
+            if (this.tools.get(tool.name) === tool) {
+                this.tools.delete(tool.name);
+                this.sessionManager.log('info', 'tools', `Tool unregistered: ${tool.name}`);
+            }
+        };
+    }
+
+    public getToolNames(): string[] {
+        return Array.from(this.tools.keys());
+    }
+
+    /** Declarations for LiveConnectConfig.tools (undefined when nothing is registered). */
+    public getTools(): Tool[] | undefined {
+        if (this.tools.size === 0) return undefined;
+        return [{
+            functionDeclarations: Array.from(this.tools.values()).map(t => ({
+                name: t.name,
+                description: t.description,
+                parametersJsonSchema: t.parameters,
+            }))
+        }];
+    }
+
+    /** Runs the calls concurrently. Failures are reported back to the model, never thrown. */
+    public dispatch(calls: FunctionCall[]): Promise<FunctionResponse[]> {
+        return Promise.all(calls.map(call => this.invoke(call)));
+    }
+
+    private async invoke(call: FunctionCall): Promise<FunctionResponse> {
+        const name = call.name || 'unknown';
+        const tool = this.tools.get(name);
+        const startedAt = performance.now();
+
+        if (!tool) {
+            this.sessionManager.log('warn', 'tools', `Model called unavailable tool: ${name}`, { args: call.args });
+            return { id: call.id, name, response: { error: `Tool "${name}" is not available right now.` } };
+        }
+
+        try {
+            const output = await tool.handler(call.args || {});
+            const latencyMs = Math.round(performance.now() - startedAt);
+            this.sessionManager.log('info', 'tools', `${name} completed in ${latencyMs}ms`, { args: call.args, output, latencyMs });
+            return { id: call.id, name, response: { output } };
+        } catch (e) {
+            const latencyMs = Math.round(performance.now() - startedAt);
+            const message = e instanceof Error ? e.message : String(e);
+            this.sessionManager.log('error', 'tools', `${name} failed after ${latencyMs}ms`, { args: call.args, error: message, latencyMs });
+            return { id: call.id, name, response: { error: message } };
+        }
+    }
+}
@@ -0,0 +1,76 @@
+
+import { PodcastEpisode } from '../types';
+import { AudioSessionManager } from './AudioSessionManager';
+import { LiveToolDefinition } from './ToolRegistry';
+
+// --- Remember Fact ---
+
+export const createRememberFactTool = (
+    onRemember: (fact: string) => void
+): LiveToolDefinition<{ fact: string }> => ({
+    name: 'remember_fact',
+    description: 'Store a short fact the user asked you to remember for the rest of this session.',
+    parameters: {
+        type: 'object',
+        properties: {
+            fact: { type: 'string', description: 'The fact, phrased as a single self-contained sentence.' }
+        },
+        required: ['fact']
+    },
+    handler: async ({ fact }) => {
+        const trimmed = (fact || '').trim();
+        if (!trimmed) throw new Error('Nothing to remember: fact was empty.');
+        onRemember(trimmed);
+        return { remembered: trimmed };
+    }
+});
+
+// --- Open Learning Episode ---
+
+export const createOpenEpisodeTool = (
+    getEpisodes: () => PodcastEpisode[],
+    onOpen: (episode: PodcastEpisode) => void
+): LiveToolDefinition<{ title: string }> => ({
+    name: 'open_learning_episode',
+    description: 'Open one of the user\'s generated podcast episodes in the player, matched by title.',
+    parameters: {
+        type: 'object',
+        properties: {
+            title: { type: 'string', description: 'Full or partial episode title.' }
+        },
+        required: ['title']
+    },
+    handler: async ({ title }) => {
+        const episodes = getEpisodes();
+        const query = (title || '').toLowerCase().trim();
+        const match = episodes.find(ep => ep.title.toLowerCase() === query)
+            || episodes.find(ep => ep.title.toLowerCase().includes(query));
+        if (!match) {
+            return { opened: false, availableEpisodes: episodes.map(ep => ep.title) };
+        }
+        onOpen(match);
+        return { opened: true, title: match.title };
+    }
+});
+
+// --- Seek Podcast ---
+
+export const createSeekPodcastTool = (): LiveToolDefinition<{ seconds: number }> => ({
+    name: 'seek_podcast',
+    description: 'Jump the currently loaded podcast to a position, in seconds from the start.',
+    parameters: {
+        type: 'object',
+        properties: {
+            seconds: { type: 'number', description: 'Target position in seconds, e.g. 150 for 2:30.' }
+        },
+        required: ['seconds']
+    },
+    handler: async ({ seconds }) => {
+        if (typeof seconds !== 'number' || !Number.isFinite(seconds)) {
+            throw new Error('seconds must be a number.');
+        }
+        const position = AudioSessionManager.getInstance().seekPodcast(seconds);
+        if (position === null) throw new Error('No podcast is loaded.');
+        return { positionSeconds: Math.round(position) };
+    }
+});
@@ -8,6 +8,7 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
@@ -26,7 +27,10 @@ export interface TranscriptionItem {
   role: 'user' | 'assistant' | 'system';
   text: string;
   timestamp: Date;
-  isFinal?: boolean;
+  isFinal?: boolean; // Turn closed; no more fragments will be appended
+  endTimestamp?: Date; // When the turn was closed
+  interrupted?: boolean; // Assistant turn cut off by a barge-in
+  inputMode?: 'voice' | 'typed'; // User turns only; absent means spoken
 }
 
 export interface VisualizerData {
@@ -48,6 +52,9 @@ export interface CustomThemeConfig {
 }
 
 // ENHANCED: Voice Profile with Behavioral Traits
+// How the mic reaches the model: always on, while a key is held, or tap on / tap off
+export type CaptureMode = 'continuous' | 'push-to-talk' | 'toggle';
+
 export interface VoiceProfile {
   id: string;
   name: string;
@@ -86,6 +93,16 @@ export interface VoiceProfile {
   naturalFillers: 'off' | 'rare' | 'contextual';
   laughter: 'off' | 'rare';
   falseStartAllowance: boolean;
+
+  // Input
+  captureMode: CaptureMode;
+  recordSessions: boolean; // Save live sessions (mic + model audio + transcript) to the local library
+}
+
+// Prompt module toggles + free-form instructions from the System Prompt editor
+export interface PromptConfig {
+  modules: Record<string, boolean>;
+  customInstruction: string;
 }
 
 // NEW: Multi-Layer Memory System
@@ -101,20 +118,63 @@ export interface MemoryLayer {
 
 // --- LEARNING & PODCAST ---
 
+// One timed stretch of a talk; `start`/`end` are seconds into the original recording
+export interface TranscriptSegment {
+  start: number;
+  end?: number;
+  speaker?: string;
+  text: string;
+}
+
+// Heading from a parsed document; `page` is set for paged formats (PDF)
+export interface SourceSection {
+  title: string;
+  level: number; // 1 = top level
+  page?: number;
+}
+
 export interface LearningSource {
   id: string;
   title: string;
-  type: 'text' | 'url' | 'pdf' | 'youtube';
+  type: 'text' | 'url' | 'pdf' | 'youtube' | 'media' | 'markdown' | 'html' | 'docx' | 'epub';
   content: string;
   url?: string;
   tags: string[];
   createdAt: Date;
   status: 'processing' | 'ready' | 'error';
+  statusMessage?: string; // Progress while processing, the reason when status is 'error'
+  pageCount?: number; // Paged sources (PDF); content carries "[p. N]" anchors
+  transcript?: TranscriptSegment[]; // Caption/media sources; content is the same text with "[12:34]" anchors
+  outline?: SourceSection[]; // Section headings of parsed documents, in order
+}
+
+// Retrieval unit cut from a source's content at heading/paragraph boundaries (see utils/sourceChunks)
+export interface SourceChunk {
+  id: string; // "<sourceId>:<index>"
+  sourceId: string;
+  index: number;
+  text: string; // Starts with the tail of the previous chunk unless a heading opened this one
+  heading?: string; // Nearest heading above the chunk
+  page?: number; // "[p. N]" page in effect where the chunk starts
+  timestamp?: number; // Seconds of the first "[12:34]" anchor in the chunk
+  tokens: number; // Estimate, see estimateTokens
+}
+
+// What a tutor answer or script line drew on: a retrieved source chunk, or a page Google Search grounding returned
+export type Citation =
+  | { kind: 'source'; sourceId: string; chunkId: string; page?: number; timestamp?: number }
+  | { kind: 'web'; url: string; title?: string };
+
+export interface GroundedAnswer {
+  text: string; // "[1]" / "[1, 3]" markers are 1-based indexes into citations
+  citations: Citation[];
+  searched: boolean; // Google Search was used for this answer
 }
 
 export interface PodcastScriptLine {
   speaker: 'Host' | 'Expert';
   text: string;
+  citations?: Citation[];
 }
 
 export type PodcastType = 'Standard' | 'Teaching';
@@ -197,10 +257,34 @@ export interface CallRequest {
   suggestedResponses?: string[];
 }
 
+// --- Session Recording ---
+
+export interface RecordedTranscriptItem extends TranscriptionItem {
+  offsetMs: number; // Position on the recording's timeline
+}
+
+export interface SessionRecording {
+  id: string;
+  title: string;
+  profileId: string;
+  profileName: string;
+  startedAt: number; // Epoch ms; t=0 of the audio
+  durationMs: number;
+  mimeType: string;
+  audio: Blob; // Stereo: left = mic, right = model
+  transcript: RecordedTranscriptItem[];
+}
+
 // --- FEATURE 4: TELEMETRY & ADMIN ---
 
+// --- Audio Devices ---
+export interface AudioDevicePreferences {
+  inputId: string | null;  // null = system default
+  outputId: string | null;
+}
+
 export type TelemetryLevel = 'info' | 'warn' | 'error' | 'debug';
-export type TelemetryCategory = 'audio' | 'network' | 'producer' | 'system' | 'drift';
+export type TelemetryCategory = 'audio' | 'network' | 'producer' | 'system' | 'drift' | 'tools' | 'vision' | 'retrieval';
 
 export interface AudioTelemetryEvent {
   id: string;
@@ -214,9 +298,10 @@ export interface AudioTelemetryEvent {
 export interface AdminConfig {
   godMode: boolean; // Disables safety filters and system prompt constraints
   forceMonetization: boolean; // Simulates free tier limits
-  debugLatency: boolean; // Shows latency graphs
+  debugLatency: boolean; // Per-turn latency table in the console + TTFA HUD in the header
   safetyFilters: 'strict' | 'relaxed' | 'off'; // Controls LLM safety settings
   temperature: number; // 0.0 to 2.0
-  maintenanceMode: boolean; // Simulates system downtime
-  systemBroadcast?: string; // Message to display to all users
+  maintenanceMode: boolean; // Ends live sessions and refuses new connects/generations (see MaintenanceGate)
+  semanticRetrieval: boolean; // Rank source chunks with embeddings as well as BM25 (see SourceRetriever)
+  systemBroadcast?: string; // Dismissible banner for all users, also added to the next system instruction
 }
@@ -0,0 +1,65 @@
+
+import { AudioDevicePreferences } from '../types';
+
+const DEVICE_PREFS_KEY = 'nexus.audioDevices';
+
+export const DEFAULT_AUDIO_DEVICE_PREFS: AudioDevicePreferences = { inputId: null, outputId: null };
+
+// AudioContext.setSinkId is Chromium-only and not in lib.dom yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const loadAudioDevicePreferences = (): AudioDevicePreferences => {
+  try {
+    const raw = localStorage.getItem(DEVICE_PREFS_KEY);
+    return raw ? { ...DEFAULT_AUDIO_DEVICE_PREFS, ...JSON.parse(raw) } : DEFAULT_AUDIO_DEVICE_PREFS;
+  } catch (e) {
+    return DEFAULT_AUDIO_DEVICE_PREFS;
+  }
+};
+
+export const saveAudioDevicePreferences = (prefs: AudioDevicePreferences) => {
+  try {
+    localStorage.setItem(DEVICE_PREFS_KEY, JSON.stringify(prefs));
+  } catch (e) {
+    console.warn("Could not persist audio device preferences", e);
+  }
+};
+
+/** Labels are empty until the page has been granted mic access once. */
+export const listAudioDevices = async (): Promise<{ inputs: MediaDeviceInfo[]; outputs: MediaDeviceInfo[] }> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+};
+
+export const supportsOutputSelection = (): boolean =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Opens the preferred mic, falling back to the system default if it is gone
+ * (unplugged headset, stale ID from another machine).
+ */
+export const openMicStream = async (deviceId: string | null): Promise<{ stream: MediaStream; usedFallback: boolean }> => {
+  if (deviceId) {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+      return { stream, usedFallback: false };
+    } catch (e) {
+      const name = (e as DOMException)?.name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw e;
+    }
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  return { stream, usedFallback: !!deviceId };
+};
+
+/** Routes a context to an output device ('' = system default). Returns false where unsupported. */
+export const applyOutputDevice = async (ctx: AudioContext, deviceId: string | null): Promise<boolean> => {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return false;
+  await sinkable.setSinkId(deviceId || '');
+  return true;
+};
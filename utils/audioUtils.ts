@@ -1,35 +1,6 @@
 
-import { Blob } from '@google/genai';
-
 export const PCM_SAMPLE_RATE = 16000;
 
-/**
- * Converts Float32Array PCM data to the specific format required by Gemini Live API.
- */
-export function pcmToGeminiBlob(data: Float32Array, sampleRate: number): Blob {
-  const l = data.length;
-  // Convert Float32 to Int16
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  
-  const bytes = new Uint8Array(int16.buffer);
-  
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  const base64 = btoa(binary);
-
-  return {
-    data: base64,
-    mimeType: `audio/pcm;rate=${sampleRate}`,
-  };
-}
-
 /**
  * Decodes a base64 string containing raw PCM data into a Float32Array.
  */
@@ -0,0 +1,109 @@
+import { GroundingMetadata } from '@google/genai';
+import { Citation, GroundedAnswer, LearningSource, SourceChunk } from '../types';
+import { formatTimestamp } from './transcripts';
+
+// "[C3]", "[C3, C7]" as the model writes them; "[W2]" refs are inserted for search grounding below
+const REF_GROUP = /[ \t]*\[\s*([CW]\d+(?:\s*[,;]\s*[CW]\d+)*)\s*\]/g;
+
+/** Reference prompts use for the n-th retrieved chunk (1-based), e.g. "C3". */
+export const chunkRef = (position: number): string => `C${position}`;
+
+export const chunkCitation = (chunk: SourceChunk): Citation => ({
+  kind: 'source',
+  sourceId: chunk.sourceId,
+  chunkId: chunk.id,
+  page: chunk.page,
+  timestamp: chunk.timestamp,
+});
+
+const citationKey = (citation: Citation) => citation.kind === 'source' ? citation.chunkId : citation.url;
+
+const refTarget = (ref: string, chunks: SourceChunk[], web: (Citation | null)[]): Citation | null => {
+  const n = parseInt(ref.slice(1), 10);
+  if (ref[0] === 'W') return web[n - 1] ?? null;
+  return chunks[n - 1] ? chunkCitation(chunks[n - 1]) : null;
+};
+
+/** Maps a script line's refs (["C3", "C7"]) to citations; refs to chunks the prompt didn't include are dropped. */
+export const citationsForRefs = (refs: unknown, chunks: SourceChunk[]): Citation[] => {
+  if (!Array.isArray(refs)) return [];
+  const citations = refs
+    .map(ref => String(ref).trim().replace(/^\[|\]$/g, '').toUpperCase())
+    .filter(ref => /^C\d+$/.test(ref))
+    .map(ref => refTarget(ref, chunks, []))
+    .filter((c): c is Citation => c !== null);
+  return citations.filter((c, i) => citations.findIndex(other => citationKey(other) === citationKey(c)) === i);
+};
+
+/**
+ * Turns a tutor reply into a GroundedAnswer. "[C3]" refs to retrieved chunks and the claims that
+ * Google Search grounding supports become "[1]" markers numbered by first use; search results
+ * no claim points at are listed after them. Refs the model made up are removed.
+ */
+export const groundAnswer = (text: string, chunks: SourceChunk[], grounding?: GroundingMetadata): GroundedAnswer => {
+  const web: (Citation | null)[] = (grounding?.groundingChunks ?? [])
+    .map(chunk => chunk.web?.uri ? { kind: 'web', url: chunk.web.uri, title: chunk.web.title } : null);
+
+  // Supports point at a text segment; mark it in place instead of trusting the (UTF-8 byte) offsets
+  let marked = text;
+  (grounding?.groundingSupports ?? []).forEach(support => {
+    const segment = support.segment?.text;
+    const refs = (support.groundingChunkIndices ?? []).filter(i => web[i]).map(i => `W${i + 1}`);
+    const at = segment ? marked.indexOf(segment) : -1;
+    if (!segment || at === -1 || refs.length === 0) return;
+    const end = at + segment.length;
+    marked = `${marked.slice(0, end)} [${refs.join(', ')}]${marked.slice(end)}`;
+  });
+
+  const citations: Citation[] = [];
+  const numberOf = (citation: Citation) => {
+    const existing = citations.findIndex(c => citationKey(c) === citationKey(citation));
+    if (existing !== -1) return existing + 1;
+    citations.push(citation);
+    return citations.length;
+  };
+
+  const resolved = marked.replace(REF_GROUP, (_, group: string) => {
+    const numbers = group.split(/[,;]/)
+      .map(ref => refTarget(ref.trim(), chunks, web))
+      .filter((c): c is Citation => c !== null)
+      .map(numberOf);
+    return numbers.length > 0 ? ` [${Array.from(new Set(numbers)).join(', ')}]` : '';
+  });
+  web.forEach(c => { if (c) numberOf(c); });
+
+  return {
+    text: resolved,
+    citations,
+    searched: (grounding?.webSearchQueries?.length ?? 0) > 0 || web.some(Boolean),
+  };
+};
+
+/** "Safety Manual · p. 12", "Interview · 12:34" or the web page's title / host. */
+export const citationLabel = (citation: Citation, sources: LearningSource[]): string => {
+  if (citation.kind === 'web') {
+    if (citation.title) return citation.title;
+    try {
+      return new URL(citation.url).hostname;
+    } catch {
+      return citation.url;
+    }
+  }
+  const title = sources.find(s => s.id === citation.sourceId)?.title ?? 'Removed source';
+  if (citation.page) return `${title} · p. ${citation.page}`;
+  if (citation.timestamp !== undefined) return `${title} · ${formatTimestamp(citation.timestamp)}`;
+  return title;
+};
+
+/** The source's original video/page at the cited moment, when it has one (YouTube "t" parameter). */
+export const citationMediaUrl = (citation: Citation, source?: LearningSource): string | null => {
+  if (citation.kind !== 'source' || !source?.url || citation.timestamp === undefined) return null;
+  try {
+    const url = new URL(source.url);
+    if (!/(^|\.)(youtube\.com|youtu\.be)$/.test(url.hostname)) return null;
+    url.searchParams.set('t', `${Math.floor(citation.timestamp)}s`);
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { downloadBlob } from './download';
+
+describe('downloadBlob', () => {
+  const createObjectURL = vi.fn(() => 'blob:test');
+  const revokeObjectURL = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('URL', class extends URL {
+      static createObjectURL = createObjectURL;
+      static revokeObjectURL = revokeObjectURL;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    createObjectURL.mockClear();
+    revokeObjectURL.mockClear();
+  });
+
+  it('clicks an attached link, then removes it', () => {
+    const clicks: { attached: boolean; href: string; download: string }[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      clicks.push({ attached: document.body.contains(this), href: this.href, download: this.download });
+    });
+
+    downloadBlob(new Blob(['{}']), 'bundle.json');
+
+    expect(clicks).toEqual([{ attached: true, href: 'blob:test', download: 'bundle.json' }]);
+    expect(document.querySelector('a')).toBeNull();
+  });
+
+  it('keeps the object URL alive until the download has started', () => {
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadBlob(new Blob(['{}']), 'bundle.json');
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:test');
+  });
+});
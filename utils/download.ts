@@ -0,0 +1,14 @@
+// Some browsers start reading the blob only after click() returns; revoking right away can cancel the download
+const REVOKE_DELAY_MS = 10000;
+
+/** Saves a blob through a temporary link; the link is attached because not every browser follows a detached one. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,181 @@
+
+export interface FrameSamplerOptions {
+  keepaliveMs: number; // Send an unchanged scene at least this often so the model's view never goes stale
+  minIntervalMs: number; // Never send faster than this, however busy the scene
+  changeThreshold: number; // Fraction of thumbnail cells that must change to count as a new scene
+  cellDelta: number; // Per-cell luma change (0..1) that counts as "changed"; filters sensor noise
+  budgetBytesPerSec: number; // Upstream bandwidth allowed for video frames
+  minQuality: number;
+  maxQuality: number;
+  minScale: number; // Lowest fraction of the input frame size the encoder will drop to
+}
+
+export const DEFAULT_FRAME_SAMPLER_OPTIONS: FrameSamplerOptions = {
+  keepaliveMs: 5000,
+  minIntervalMs: 500,
+  changeThreshold: 0.015,
+  cellDelta: 0.06,
+  budgetBytesPerSec: 48_000,
+  minQuality: 0.35,
+  maxQuality: 0.8,
+  minScale: 0.5,
+};
+
+export type FrameSkipReason = 'unchanged' | 'rate' | 'budget';
+
+export type FrameSample =
+  | { send: true; data: string; bytes: number; reason: 'first' | 'change' | 'keepalive'; diff: number }
+  | { send: false; reason: FrameSkipReason; diff: number };
+
+export interface FrameSamplerStats {
+  framesSent: number;
+  framesSkipped: number;
+  skippedUnchanged: number;
+  skippedRate: number;
+  skippedBudget: number;
+  keepalives: number;
+  bytesSent: number;
+  lastFrameBytes: number;
+  lastDiff: number;
+  quality: number;
+  scale: number;
+}
+
+// Diff thumbnail: small enough to be ~free per tick, large enough to see a line of text change
+const THUMB_WIDTH = 64;
+const THUMB_HEIGHT = 36;
+// Token bucket holds this many seconds of budget, so a scene cut can burst past the average
+const BUCKET_SECONDS = 2;
+const QUALITY_STEP = 0.05;
+const SCALE_STEP = 0.85;
+
+/**
+ * Decides which captured frames are worth sending and how hard to compress them.
+ *
+ * Each tick the frame is reduced to a grayscale thumbnail and compared with the last frame
+ * that was actually sent (not the last one seen, so a slow pan still adds up to a change).
+ * Changed scenes go out at most every `minIntervalMs`; static ones only on the keepalive.
+ * Sends draw from a token bucket refilled at the bandwidth budget; JPEG quality and then
+ * frame size step down while frames run over their share of the budget and recover when under.
+ */
+export class FrameSampler {
+  private options: FrameSamplerOptions;
+  private thumbCanvas = document.createElement('canvas');
+  private encodeCanvas = document.createElement('canvas');
+  private lastSentThumb: Float32Array | null = null;
+  private lastSentAt = 0;
+  private bucketBytes: number;
+  private lastRefillAt = performance.now();
+  private quality: number;
+  private scale = 1;
+  private stats: FrameSamplerStats;
+
+  constructor(options: Partial<FrameSamplerOptions> = {}) {
+    this.options = { ...DEFAULT_FRAME_SAMPLER_OPTIONS, ...options };
+    this.thumbCanvas.width = THUMB_WIDTH;
+    this.thumbCanvas.height = THUMB_HEIGHT;
+    this.bucketBytes = this.options.budgetBytesPerSec * BUCKET_SECONDS;
+    this.quality = this.options.maxQuality;
+    this.stats = {
+      framesSent: 0, framesSkipped: 0, skippedUnchanged: 0, skippedRate: 0, skippedBudget: 0,
+      keepalives: 0, bytesSent: 0, lastFrameBytes: 0, lastDiff: 0, quality: this.quality, scale: this.scale,
+    };
+  }
+
+  /** Inspects the frame currently drawn in `source` and returns base64 JPEG data if it should go out. */
+  public sample(source: HTMLCanvasElement, now: number = performance.now()): FrameSample {
+    this.refill(now);
+    const thumb = this.thumbnail(source);
+    const diff = this.lastSentThumb ? this.diff(thumb, this.lastSentThumb) : 1;
+    this.stats.lastDiff = Math.round(diff * 1000) / 1000;
+
+    const sinceLast = now - this.lastSentAt;
+    const isFirst = this.lastSentThumb === null;
+    const changed = diff >= this.options.changeThreshold;
+    const keepaliveDue = sinceLast >= this.options.keepaliveMs;
+
+    if (!isFirst && !changed && !keepaliveDue) return this.skip('unchanged', diff);
+    if (!isFirst && sinceLast < this.options.minIntervalMs) return this.skip('rate', diff);
+    // Keepalives may dip into the bucket; change frames wait for it to cover the last frame's size
+    if (!isFirst && !keepaliveDue && this.bucketBytes < this.stats.lastFrameBytes) return this.skip('budget', diff);
+
+    const data = this.encode(source);
+    const bytes = Math.floor(data.length * 3 / 4);
+    this.bucketBytes -= bytes;
+    this.adapt(bytes);
+
+    const reason = isFirst ? 'first' : changed ? 'change' : 'keepalive';
+    this.lastSentThumb = thumb;
+    this.lastSentAt = now;
+    this.stats.framesSent++;
+    this.stats.bytesSent += bytes;
+    this.stats.lastFrameBytes = bytes;
+    if (reason === 'keepalive') this.stats.keepalives++;
+    return { send: true, data, bytes, reason, diff };
+  }
+
+  public getStats(): FrameSamplerStats {
+    return { ...this.stats, quality: Math.round(this.quality * 100) / 100, scale: Math.round(this.scale * 100) / 100 };
+  }
+
+  private skip(reason: FrameSkipReason, diff: number): FrameSample {
+    this.stats.framesSkipped++;
+    if (reason === 'unchanged') this.stats.skippedUnchanged++;
+    else if (reason === 'rate') this.stats.skippedRate++;
+    else this.stats.skippedBudget++;
+    return { send: false, reason, diff };
+  }
+
+  private refill(now: number) {
+    const capacity = this.options.budgetBytesPerSec * BUCKET_SECONDS;
+    this.bucketBytes = Math.min(capacity, this.bucketBytes + ((now - this.lastRefillAt) / 1000) * this.options.budgetBytesPerSec);
+    this.lastRefillAt = now;
+  }
+
+  private thumbnail(source: HTMLCanvasElement): Float32Array {
+    const ctx = this.thumbCanvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(source, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const luma = new Float32Array(THUMB_WIDTH * THUMB_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return luma;
+  }
+
+  // Fraction of cells whose brightness moved noticeably: robust to sensor noise and small cursor moves
+  private diff(a: Float32Array, b: Float32Array): number {
+    let changed = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (Math.abs(a[i] - b[i]) > this.options.cellDelta) changed++;
+    }
+    return changed / a.length;
+  }
+
+  private encode(source: HTMLCanvasElement): string {
+    let canvas = source;
+    if (this.scale < 1) {
+      canvas = this.encodeCanvas;
+      const width = Math.max(1, Math.round(source.width * this.scale));
+      const height = Math.max(1, Math.round(source.height * this.scale));
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+      canvas.getContext('2d')!.drawImage(source, 0, 0, width, height);
+    }
+    return canvas.toDataURL('image/jpeg', this.quality).split(',')[1];
+  }
+
+  // Each frame's fair share assumes the busiest case: a send every minIntervalMs
+  private adapt(bytes: number) {
+    const { budgetBytesPerSec, minIntervalMs, minQuality, maxQuality, minScale } = this.options;
+    const targetBytes = budgetBytesPerSec * (minIntervalMs / 1000);
+    if (bytes > targetBytes * 1.1) {
+      if (this.quality > minQuality + 1e-6) this.quality = Math.max(minQuality, this.quality - QUALITY_STEP * 2);
+      else this.scale = Math.max(minScale, this.scale * SCALE_STEP);
+    } else if (bytes < targetBytes * 0.6) {
+      // Recover resolution first: legibility matters more than JPEG artifacts on screen content
+      if (this.scale < 1) this.scale = Math.min(1, this.scale / SCALE_STEP);
+      else this.quality = Math.min(maxQuality, this.quality + QUALITY_STEP);
+    }
+  }
+}
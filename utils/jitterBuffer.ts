@@ -0,0 +1,193 @@
+
+export interface JitterBufferOptions {
+  minDepthMs: number; // Never start a stream with less audio queued than this
+  maxDepthMs: number; // Cap on added latency, however bad the network gets
+  jitterMultiplier: number; // Target depth = multiplier x smoothed arrival jitter
+  underrunPenaltyMs: number; // Extra depth added after each underrun
+  fadeMs: number; // Boundary fade length; only applied where playback is discontinuous
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  minDepthMs: 40,
+  maxDepthMs: 400,
+  jitterMultiplier: 2.5,
+  underrunPenaltyMs: 30,
+  fadeMs: 6,
+};
+
+// A drained queue idle for this long means the next chunk starts a new utterance, not an underrun
+const IDLE_RESET_S = 1.5;
+
+export interface JitterBufferStats {
+  depthMs: number; // Audio currently queued ahead of the playhead
+  targetDepthMs: number;
+  jitterMs: number; // Smoothed inter-arrival jitter (RFC 3550 style)
+  underruns: number; // Playhead ran dry mid-stream
+  chunksScheduled: number;
+  activeSources: number;
+}
+
+export interface JitterBufferCallbacks {
+  onDrained?: () => void; // Last queued chunk finished playing
+  onUnderrun?: (stats: JitterBufferStats) => void;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  endTime: number;
+}
+
+/**
+ * Schedules streamed model audio with an adaptive pre-buffer.
+ *
+ * Arrival jitter is how late each chunk arrives beyond the audio the server had already
+ * delivered ahead of real time (bursts are banked as credit, not counted), smoothed; a stream
+ * (re)starts only once `target depth` of audio is queued, and every underrun raises that
+ * target while a steady network lets it decay back. Every chunk is scheduled with a
+ * fade-out at its tail that is cancelled when the next chunk lands contiguously, so
+ * seamless joins stay untouched and only real gaps get a fade-out/fade-in instead of a click.
+ */
+export class JitterBuffer {
+  private options: JitterBufferOptions;
+  private nextStartTime = 0;
+  private streaming = false; // Inside a model utterance (first chunk until endOfStream/flush)
+  private drainedAt = 0;
+  private lastArrival = 0;
+  private lastDurationMs = 0;
+  private arrivalCreditMs = 0; // How far ahead of real time the server has delivered
+  private jitterMs = 0;
+  private penaltyMs = 0;
+  private underruns = 0;
+  private chunksScheduled = 0;
+  private active = new Set<ScheduledChunk>();
+  private lastChunk: ScheduledChunk | null = null;
+
+  constructor(
+    private ctx: AudioContext,
+    private destination: AudioNode,
+    private callbacks: JitterBufferCallbacks = {},
+    options: Partial<JitterBufferOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options };
+  }
+
+  public get targetDepthMs(): number {
+    const { minDepthMs, maxDepthMs, jitterMultiplier } = this.options;
+    return Math.min(maxDepthMs, Math.max(minDepthMs, this.jitterMs * jitterMultiplier + this.penaltyMs));
+  }
+
+  /** Schedules a chunk; returns how many ms from now it becomes audible. */
+  public enqueue(buffer: AudioBuffer): number {
+    const now = this.ctx.currentTime;
+    const arrival = performance.now();
+    const fresh = !this.streaming || (this.active.size === 0 && now - this.drainedAt > IDLE_RESET_S);
+    this.trackJitter(arrival, buffer.duration * 1000, fresh);
+
+    const fade = this.options.fadeMs / 1000;
+    let startAt: number;
+    let contiguous = false;
+
+    if (fresh) {
+      // Fresh utterance: pre-buffer to the target depth (after anything still playing)
+      startAt = Math.max(this.nextStartTime, now + this.targetDepthMs / 1000);
+      this.streaming = true;
+    } else if (this.nextStartTime < now + fade) {
+      // Playhead caught up with the queue mid-utterance
+      this.underruns++;
+      this.penaltyMs = Math.min(this.options.maxDepthMs, this.penaltyMs + this.options.underrunPenaltyMs);
+      startAt = now + this.targetDepthMs / 1000;
+      this.callbacks.onUnderrun?.(this.getStats());
+    } else {
+      startAt = this.nextStartTime;
+      contiguous = true;
+    }
+
+    const gain = this.ctx.createGain();
+    gain.connect(this.destination);
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+
+    if (contiguous && this.lastChunk) {
+      // Seamless join: drop the previous chunk's pending tail fade
+      this.lastChunk.gain.gain.cancelScheduledValues(this.lastChunk.endTime - fade);
+      this.lastChunk.gain.gain.setValueAtTime(1, this.lastChunk.endTime - fade);
+      gain.gain.setValueAtTime(1, startAt);
+    } else {
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.linearRampToValueAtTime(1, startAt + fade);
+    }
+    const endTime = startAt + buffer.duration;
+    // Tail fade, cancelled above if the next chunk arrives in time
+    gain.gain.setValueAtTime(1, Math.max(startAt + fade, endTime - fade));
+    gain.gain.linearRampToValueAtTime(0, endTime);
+
+    const chunk: ScheduledChunk = { source, gain, endTime };
+    source.onended = () => {
+      this.active.delete(chunk);
+      gain.disconnect();
+      if (this.active.size === 0) {
+        this.drainedAt = this.ctx.currentTime;
+        this.lastChunk = null;
+        this.callbacks.onDrained?.();
+      }
+    };
+    source.start(startAt);
+
+    this.active.add(chunk);
+    this.lastChunk = chunk;
+    this.nextStartTime = endTime;
+    this.chunksScheduled++;
+    return (startAt - now) * 1000;
+  }
+
+  /** Server finished the turn: the next chunk belongs to a new utterance. Queued audio keeps playing. */
+  public endOfStream() {
+    this.streaming = false;
+  }
+
+  /** Barge-in: silence everything queued immediately. */
+  public flush() {
+    this.active.forEach(chunk => {
+      chunk.source.onended = null;
+      try { chunk.source.stop(); } catch (e) {}
+      chunk.gain.disconnect();
+    });
+    this.active.clear();
+    this.lastChunk = null;
+    this.streaming = false;
+    this.nextStartTime = this.ctx.currentTime;
+  }
+
+  public get isPlaying(): boolean {
+    return this.active.size > 0;
+  }
+
+  public getStats(): JitterBufferStats {
+    const depth = Math.max(0, this.nextStartTime - this.ctx.currentTime) * 1000;
+    return {
+      depthMs: Math.round(depth),
+      targetDepthMs: Math.round(this.targetDepthMs),
+      jitterMs: Math.round(this.jitterMs * 10) / 10,
+      underruns: this.underruns,
+      chunksScheduled: this.chunksScheduled,
+      activeSources: this.active.size,
+    };
+  }
+
+  private trackJitter(arrival: number, durationMs: number, freshUtterance: boolean) {
+    if (!freshUtterance && this.lastArrival > 0) {
+      const slip = (arrival - this.lastArrival) - this.lastDurationMs;
+      const lateness = Math.max(0, slip - this.arrivalCreditMs);
+      this.arrivalCreditMs = Math.max(0, this.arrivalCreditMs - slip);
+      this.jitterMs += (lateness - this.jitterMs) / 16;
+      // A steady link slowly earns back latency added by past underruns
+      this.penaltyMs = Math.max(0, this.penaltyMs - 1);
+    } else {
+      this.arrivalCreditMs = 0;
+    }
+    this.lastArrival = arrival;
+    this.lastDurationMs = durationMs;
+  }
+}
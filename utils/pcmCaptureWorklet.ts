@@ -0,0 +1,208 @@
+
+import { PCM_SAMPLE_RATE } from './audioUtils';
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+export const DEFAULT_CAPTURE_FRAME_MS = 40;
+
+export interface PcmCaptureFrame {
+  data: string; // base64 Int16 little-endian PCM
+  mimeType: string;
+}
+
+// Frame as posted by the worklet: payload plus the features the VAD needs
+export interface AnalyzedPcmFrame extends PcmCaptureFrame {
+  durationMs: number;
+  rmsDb: number; // Frame energy in dBFS
+  flatness: number; // Spectral flatness 0 (tonal, voiced) .. 1 (white noise), speech band only
+}
+
+/**
+ * AudioWorklet processor source. Kept as a string and loaded through a Blob URL so it
+ * works the same under Vite and the AI Studio import-map runtime (no bundler plugin needed).
+ *
+ * Runs on the audio rendering thread: box-filter downsamples the mic from the context rate
+ * to the target rate, packs Float32 -> Int16, fills fixed-size frames and base64-encodes
+ * them, so the main thread only forwards finished chunks to the socket. Each frame also
+ * carries its energy and spectral flatness for the voice activity gate.
+ */
+const PROCESSOR_SOURCE = `
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes) {
+  let out = '';
+  const len = bytes.length;
+  let i = 0;
+  for (; i + 2 < len; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + B64[(n >> 6) & 63] + B64[n & 63];
+  }
+  if (i < len) {
+    const n = (bytes[i] << 16) | ((i + 1 < len ? bytes[i + 1] : 0) << 8);
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63];
+    out += i + 1 < len ? B64[(n >> 6) & 63] : '=';
+    out += '=';
+  }
+  return out;
+}
+
+const FFT_SIZE = 512;
+const FLOOR_DB = -100;
+
+// In-place iterative radix-2 FFT
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = -2 * Math.PI / len;
+    const wr = Math.cos(ang), wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        const ncr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = ncr;
+      }
+    }
+  }
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    const opts = (options && options.processorOptions) || {};
+    super();
+    this.targetRate = opts.targetSampleRate || 16000;
+    this.step = sampleRate / this.targetRate;
+    this.frame = new Int16Array(Math.max(1, Math.round(this.targetRate * (opts.frameMs || 40) / 1000)));
+    this.floatFrame = new Float32Array(this.frame.length);
+    this.durationMs = this.frame.length * 1000 / this.targetRate;
+    this.fftRe = new Float32Array(FFT_SIZE);
+    this.fftIm = new Float32Array(FFT_SIZE);
+    // Speech band 150 Hz - 4 kHz
+    this.binLo = Math.max(1, Math.floor(150 * FFT_SIZE / this.targetRate));
+    this.binHi = Math.min(FFT_SIZE / 2 - 1, Math.ceil(4000 * FFT_SIZE / this.targetRate));
+    this.frameIndex = 0;
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.mimeType = 'audio/pcm;rate=' + this.targetRate;
+  }
+
+  analyze() {
+    const x = this.floatFrame;
+    let energy = 0;
+    for (let i = 0; i < x.length; i++) energy += x[i] * x[i];
+    const rms = Math.sqrt(energy / x.length);
+    const rmsDb = rms > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(rms)) : FLOOR_DB;
+
+    // Hann-windowed tail of the frame (zero-padded when the frame is shorter than the FFT)
+    const re = this.fftRe, im = this.fftIm;
+    const offset = Math.max(0, x.length - FFT_SIZE);
+    const count = Math.min(FFT_SIZE, x.length);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = i < count ? x[offset + i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (count - 1 || 1))) : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let logSum = 0, linSum = 0;
+    const bins = this.binHi - this.binLo + 1;
+    for (let k = this.binLo; k <= this.binHi; k++) {
+      const p = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      logSum += Math.log(p);
+      linSum += p;
+    }
+    const flatness = Math.exp(logSum / bins) / (linSum / bins);
+    return { rmsDb, flatness };
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.floatFrame[this.frameIndex] = s;
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.frameIndex === this.frame.length) {
+      const features = this.analyze();
+      this.port.postMessage({
+        data: toBase64(new Uint8Array(this.frame.buffer)),
+        mimeType: this.mimeType,
+        durationMs: this.durationMs,
+        rmsDb: features.rmsDb,
+        flatness: features.flatness,
+      });
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    if (this.step <= 1) {
+      // Context already runs at (or below) the target rate: pass through
+      for (let i = 0; i < channel.length; i++) this.push(channel[i]);
+      return true;
+    }
+
+    // Box-filter decimation: average every 'step' input samples into one output sample.
+    // Handles fractional ratios (44.1k -> 16k) by carrying the phase across render quanta.
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.phase += 1;
+      if (this.phase >= this.step) {
+        this.push(this.sum / this.count);
+        this.phase -= this.step;
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Registers the capture processor on the context (once) and returns a node that posts
+ * ready-to-send PCM frames. Frame size is in milliseconds at the target rate (20/40/100 are typical).
+ */
+export async function createPcmCaptureNode(
+  ctx: AudioContext,
+  onFrame: (frame: AnalyzedPcmFrame) => void,
+  frameMs: number = DEFAULT_CAPTURE_FRAME_MS,
+  targetSampleRate: number = PCM_SAMPLE_RATE
+): Promise<AudioWorkletNode> {
+  if (!registeredContexts.has(ctx)) {
+    if (!moduleUrl) {
+      moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    }
+    await ctx.audioWorklet.addModule(moduleUrl);
+    registeredContexts.add(ctx);
+  }
+
+  const node = new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate, frameMs },
+  });
+  node.port.onmessage = (e: MessageEvent<AnalyzedPcmFrame>) => onFrame(e.data);
+  return node;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildTextPdf, FixturePdf, FixtureText, updatePageText } from '../fixtures/pdf/buildPdf';
+import { extractPdfText, PdfExtractionError } from './pdfText';
+
+const toArrayBuffer = (pdf: FixturePdf) => pdf.bytes.slice().buffer;
+
+// Body text is 11pt on a 14pt leading, starting below the given baseline
+const paragraph = (lines: string[], y: number, x = 72, font?: FixtureText['font']): FixtureText[] =>
+  lines.map((text, i) => ({ text, x, y: y - i * 14, size: 11, font }));
+
+const MANUAL_PAGE: FixtureText[] = [
+  { text: 'Safety Manual', x: 72, y: 720, size: 20 },
+  { text: 'Before you begin', x: 72, y: 690, size: 14 },
+  ...paragraph([
+    'Always disconnect the power supply before opening the hous-',
+    'ing. Wear insulated gloves when handling',
+    'the capacitor bank.',
+  ], 668),
+];
+
+const MANUAL_TEXT = [
+  '[p. 1]',
+  '# Safety Manual',
+  '## Before you begin',
+  'Always disconnect the power supply before opening the housing. Wear insulated gloves when handling the capacitor bank.',
+].join('\n\n');
+
+describe('extractPdfText', () => {
+  it('turns large type into headings and reflows wrapped paragraphs', async () => {
+    const result = await extractPdfText(toArrayBuffer(buildTextPdf([MANUAL_PAGE])));
+    expect(result.pageCount).toBe(1);
+    expect(result.text).toBe(MANUAL_TEXT);
+    expect(result.pages[0].lines.map(l => l.heading)).toEqual([1, 2, 0]);
+  });
+
+  it('reads dictionaries from object streams and cross-reference streams', async () => {
+    const result = await extractPdfText(toArrayBuffer(buildTextPdf([MANUAL_PAGE], { objectStreams: true })));
+    expect(result.text).toBe(MANUAL_TEXT);
+  });
+
+  it.each([false, true])('uses the latest revision after an incremental update (object streams: %s)', async objectStreams => {
+    const original = buildTextPdf([paragraph(['Torque the cover bolts to 40 Nm in a cross pattern.'], 700)], { objectStreams });
+    const updated = updatePageText(original, 0, paragraph(['Torque the cover bolts to 45 Nm in a cross pattern.'], 700));
+    const result = await extractPdfText(toArrayBuffer(updated));
+    expect(result.text).toBe('[p. 1]\n\nTorque the cover bolts to 45 Nm in a cross pattern.');
+  });
+
+  it('decodes Type0 fonts through ToUnicode and spaces runs by their /W widths', async () => {
+    const result = await extractPdfText(toArrayBuffer(buildTextPdf([[
+      { text: 'Wartung', x: 72, y: 720, size: 20 },
+      { text: 'Überprüfung der Dichtungen', x: 72, y: 690, size: 11, font: 'cid' },
+      // 5 glyphs at 600/1000 em end at x = 105; the next run starts a word space later
+      { text: 'Druck', x: 72, y: 676, size: 11, font: 'cid' },
+      { text: 'prüfen', x: 108.3, y: 676, size: 11, font: 'cid' },
+      ...paragraph(['und Ventile schließen.'], 662, 72, 'cid'),
+    ]])));
+    expect(result.text).toBe('[p. 1]\n\n# Wartung\n\nÜberprüfung der Dichtungen Druck prüfen und Ventile schließen.');
+  });
+
+  it('keeps columns apart when they are set one after the other', async () => {
+    const result = await extractPdfText(toArrayBuffer(buildTextPdf([[
+      ...paragraph(['The left column explains how the', 'pump is primed before first use.'], 700, 72),
+      ...paragraph(['The right column lists the spare', 'parts that ship with the unit.'], 700, 320),
+    ]])));
+    expect(result.pages[0].lines.map(l => l.text)).toEqual([
+      'The left column explains how the pump is primed before first use.',
+      'The right column lists the spare parts that ship with the unit.',
+    ]);
+  });
+
+  it('drops running headers and page numbers and anchors every page', async () => {
+    const pages = ['Inspection', 'Cleaning', 'Storage'].map((topic, i) => [
+      { text: 'ACME Field Service Manual', x: 72, y: 760, size: 9 },
+      ...paragraph([`${topic} steps are listed in the order`, 'they must be carried out by the', `technician on site (section ${i + 1}).`], 700),
+      { text: `Page ${i + 1} of 3`, x: 280, y: 30, size: 9 },
+    ]);
+    const progress: [number, number][] = [];
+    const result = await extractPdfText(toArrayBuffer(buildTextPdf(pages)), (page, count) => progress.push([page, count]));
+
+    expect(progress).toEqual([[1, 3], [2, 3], [3, 3]]);
+    expect(result.removedBoilerplate).toBe(6);
+    expect(result.text).not.toMatch(/ACME|Page \d/);
+    expect(result.text.split('\n\n').filter(l => l.startsWith('[p.'))).toEqual(['[p. 1]', '[p. 2]', '[p. 3]']);
+    expect(result.pages[1].lines).toEqual([
+      { text: 'Cleaning steps are listed in the order they must be carried out by the technician on site (section 2).', size: 11, heading: 0 },
+    ]);
+  });
+
+  it('reports files without a text layer', async () => {
+    await expect(extractPdfText(toArrayBuffer(buildTextPdf([[]])))).rejects.toThrow(/No extractable text/);
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    const notPdf = new TextEncoder().encode('<html><body>Not a manual</body></html>').buffer;
+    await expect(extractPdfText(notPdf)).rejects.toBeInstanceOf(PdfExtractionError);
+  });
+});
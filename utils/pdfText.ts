@@ -0,0 +1,192 @@
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+
+// Client-side PDF text extraction. pdf.js decodes the file and fonts into positioned text runs;
+// this module turns those into reading-order lines, headings and page anchors.
+// Scanned (image-only) and encrypted PDFs are reported as errors rather than guessed at.
+
+export interface PdfLine {
+  text: string;
+  size: number; // Rendered font size, used to spot headings
+  heading: 0 | 1 | 2; // 0 = body text
+}
+
+export interface PdfPage {
+  number: number; // 1-based
+  lines: PdfLine[];
+}
+
+export interface PdfExtraction {
+  pageCount: number;
+  pages: PdfPage[];
+  text: string; // Normalised text with "[p. N]" anchors before each page
+  removedBoilerplate: number; // Repeated header/footer lines dropped
+}
+
+export class PdfExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+  }
+}
+
+// --- Text runs ---
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+}
+
+// pdf.js is large and most sessions never see a PDF, so it loads on first use. Its worker code
+// runs in-thread ("fake worker"): no worker URL has to resolve under both Vite and the
+// import-map runtime, the same constraint the capture worklet works around.
+const loadPdfJs = async () => {
+  const [pdfjs] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs')]);
+  return pdfjs;
+};
+
+// Positioned runs in content-stream order; marked-content markers and empty runs carry no text
+const toRuns = (items: (TextItem | TextMarkedContent)[]): TextRun[] => items
+  .filter((item): item is TextItem => 'str' in item && item.str.length > 0)
+  .map(item => {
+    const [, , c, d, x, y] = item.transform as number[];
+    return { text: item.str, x, y, endX: x + item.width, size: Math.hypot(c, d) || item.height };
+  });
+
+interface RawLine {
+  text: string;
+  y: number;
+  size: number;
+}
+
+const groupLines = (runs: TextRun[]): RawLine[] => {
+  const lines: (RawLine & { endX: number })[] = [];
+  runs.forEach(run => {
+    const line = lines[lines.length - 1];
+    const sameLine = line && Math.abs(line.y - run.y) < Math.max(line.size, run.size) * 0.5 && run.x > line.endX - run.size * 3;
+    if (!sameLine) {
+      lines.push({ text: run.text, y: run.y, size: run.size, endX: run.endX });
+      return;
+    }
+    const gap = run.x - line.endX;
+    line.text += (gap > run.size * 0.15 && !line.text.endsWith(' ') && !run.text.startsWith(' ') ? ' ' : '') + run.text;
+    line.size = Math.max(line.size, run.size);
+    line.endX = run.endX;
+  });
+  return lines
+    .map(l => ({ text: l.text.replace(/\s+/g, ' ').trim(), y: l.y, size: l.size }))
+    .filter(l => l.text.length > 0);
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Page furniture is compared with digits masked, so "Page 3 of 40" matches across pages
+const boilerplateKey = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+const PAGE_NUMBER_LINE = /^(page\s*)?(#|[ivx]{1,5})(\s*(of|\/)\s*#)?$/i;
+const EDGE_LINES = 3;
+
+const removeBoilerplate = (pages: RawLine[][]): { pages: RawLine[][]; removed: number } => {
+  const counts = new Map<string, number>();
+  // Short pages get a smaller window so their body text is never treated as page furniture
+  const edgeCount = (lines: RawLine[]) => Math.min(EDGE_LINES, Math.floor(lines.length / 3));
+  pages.forEach(lines => {
+    const edge = edgeCount(lines);
+    const edges = new Set([...lines.slice(0, edge), ...lines.slice(lines.length - edge)].map(l => boilerplateKey(l.text)));
+    edges.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.5));
+  let removed = 0;
+  const cleaned = pages.map(lines => lines.filter((line, i) => {
+    const edge = edgeCount(lines);
+    const atEdge = i < Math.max(edge, 1) || i >= lines.length - Math.max(edge, 1);
+    const key = boilerplateKey(line.text);
+    const drop = atEdge && (PAGE_NUMBER_LINE.test(key) || (pages.length >= 3 && (counts.get(key) ?? 0) >= threshold));
+    if (drop) removed++;
+    return !drop;
+  }));
+  return { pages: cleaned, removed };
+};
+
+const toPdfLines = (lines: RawLine[], bodySize: number): PdfLine[] => {
+  const gaps = lines.slice(1).map((l, i) => lines[i].y - l.y).filter(g => g > 0);
+  const lineGap = median(gaps) || bodySize * 1.2;
+  const out: PdfLine[] = [];
+
+  lines.forEach((line, i) => {
+    const ratio = bodySize > 0 ? line.size / bodySize : 1;
+    const heading: PdfLine['heading'] = line.text.length <= 120 && ratio >= 1.6 ? 1 : line.text.length <= 120 && ratio >= 1.2 ? 2 : 0;
+    const prev = out[out.length - 1];
+    const gap = i > 0 ? lines[i - 1].y - line.y : Infinity;
+
+    if (prev && prev.heading === heading && heading > 0 && Math.abs(prev.size - line.size) < 0.5 && gap < line.size * 2) {
+      prev.text += ` ${line.text}`; // Heading wrapped onto two lines
+    } else if (prev && heading === 0 && prev.heading === 0 && gap > 0 && gap < lineGap * 1.4) {
+      // Same paragraph: reflow, and rejoin words hyphenated across the line break
+      prev.text = /[a-z]-$/i.test(prev.text) && /^[a-z]/.test(line.text)
+        ? prev.text.slice(0, -1) + line.text
+        : `${prev.text} ${line.text}`;
+    } else {
+      out.push({ text: line.text, size: line.size, heading });
+    }
+  });
+  return out;
+};
+
+/**
+ * Extracts page-aware text from a PDF. Headings (by font size relative to body text) become
+ * Markdown headings, running headers/footers and page numbers are dropped, and each page is
+ * prefixed with a "[p. N]" anchor (physical page number) that prompts can cite.
+ */
+export const extractPdfText = async (
+  data: ArrayBuffer,
+  onProgress?: (page: number, pageCount: number) => void
+): Promise<PdfExtraction> => {
+  const pdfjs = await loadPdfJs();
+  const task = pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false, disableFontFace: true, verbosity: pdfjs.VerbosityLevel.ERRORS });
+  const rawPages: RawLine[][] = [];
+  try {
+    const doc = await task.promise.catch((e: Error) => {
+      if (e?.name === 'PasswordException') throw new PdfExtractionError('This PDF is encrypted or password-protected; export an unprotected copy and try again');
+      if (e?.name === 'InvalidPDFException') throw new PdfExtractionError('Not a PDF file, or the file is damaged');
+      throw e;
+    });
+    if (doc.numPages === 0) throw new PdfExtractionError('No pages found; the file may be damaged');
+    for (let i = 1; i <= doc.numPages; i++) {
+      onProgress?.(i, doc.numPages);
+      const page = await doc.getPage(i);
+      rawPages.push(groupLines(toRuns((await page.getTextContent()).items)));
+      page.cleanup();
+      await new Promise(resolve => setTimeout(resolve, 0)); // Keep the UI responsive on long manuals
+    }
+  } finally {
+    await task.destroy();
+  }
+
+  const { pages: cleaned, removed } = removeBoilerplate(rawPages);
+  const allLines = cleaned.flat();
+  if (allLines.reduce((n, l) => n + l.text.length, 0) < 20) {
+    throw new PdfExtractionError('No extractable text found; the PDF may be scanned images (OCR it first)');
+  }
+
+  // Body size = the size most characters are set in
+  const sizeWeights = new Map<number, number>();
+  allLines.forEach(l => {
+    const size = Math.round(l.size * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) ?? 0) + l.text.length);
+  });
+  const bodySize = Array.from(sizeWeights.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+  const pages: PdfPage[] = cleaned.map((lines, i) => ({ number: i + 1, lines: toPdfLines(lines, bodySize) }));
+  const text = pages
+    .filter(p => p.lines.length > 0)
+    .map(p => [`[p. ${p.number}]`, ...p.lines.map(l => l.heading ? `${'#'.repeat(l.heading)} ${l.text}` : l.text)].join('\n\n'))
+    .join('\n\n');
+
+  return { pageCount: pages.length, pages, text, removedBoilerplate: removed };
+};
@@ -1,5 +1,5 @@
 
-import { VoiceProfile, MemoryLayer } from '../types';
+import { VoiceProfile, MemoryLayer, TranscriptionItem } from '../types';
 
 // --- NATIVE AUDIO HUMANIZATION PROMPTS ---
 
@@ -132,3 +132,31 @@ Operational Rules:
 ${memoryContext}
 `;
 };
+
+// Compact recap of the recent conversation. Appended to the system instruction when a dropped
+// Live session is re-opened, so the model continues the thread instead of starting cold.
+export const getReconnectRecap = (transcripts: TranscriptionItem[], maxTurns = 8, maxChars = 1500) => {
+    const lines = transcripts
+        .filter(t => t.role !== 'system' && t.text.trim())
+        .slice(-maxTurns)
+        .map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.text.trim()}${t.interrupted ? ' [cut off by the user]' : ''}`);
+
+    // Drop the oldest turns first until the recap fits the budget
+    while (lines.length > 1 && lines.join('\n').length > maxChars) lines.shift();
+    if (lines.length === 0) return '';
+
+    return `
+CONVERSATION RECAP (the connection dropped and was restored):
+${lines.join('\n').slice(-maxChars)}
+
+Continue the conversation naturally from this point. Do not greet the user again or mention the reconnection unless asked.
+`;
+};
+
+// Admin broadcast, appended to the system instruction so the model knows what users were told
+export const getBroadcastNotice = (broadcast: string) => `
+SYSTEM BROADCAST (shown to the user as a banner):
+"${broadcast.trim()}"
+
+If the user asks about it or it affects what they are doing, mention it briefly. Do not read it out unprompted.
+`;
@@ -0,0 +1,101 @@
+
+import { RecordedTranscriptItem, TranscriptionItem } from '../types';
+
+// First supported container wins; Safari only records mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+const RECORDER_TIMESLICE_MS = 1000;
+
+export interface SessionCapture {
+  startedAt: number; // Epoch ms of t=0
+  durationMs: number;
+  mimeType: string;
+  audio: Blob;
+  transcript: RecordedTranscriptItem[];
+}
+
+export const supportsSessionRecording = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && RECORDING_MIME_TYPES.some(t => MediaRecorder.isTypeSupported(t));
+
+/** Places transcript items on a recording's timeline (items from before t=0 are dropped). */
+export const alignTranscript = (items: TranscriptionItem[], startedAt: number, durationMs: number): RecordedTranscriptItem[] =>
+  items
+    .filter(item => item.timestamp.getTime() >= startedAt)
+    .map(item => ({ ...item, offsetMs: Math.min(durationMs, item.timestamp.getTime() - startedAt) }));
+
+/**
+ * Records a live session as one stereo track: mic on the left, model audio on the right.
+ * Both are mixed inside the output context, so they share a single clock and timeline
+ * regardless of the mic context's sample rate. The mic source can be swapped mid-recording
+ * (device hot-swap) without a gap in the file.
+ */
+export class SessionRecorder {
+  private merger: ChannelMergerNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private mimeType = '';
+
+  constructor(private ctx: AudioContext, private modelOutput: AudioNode) {
+    this.merger = ctx.createChannelMerger(2);
+    this.destination = ctx.createMediaStreamDestination();
+    this.destination.channelCount = 2;
+    this.merger.connect(this.destination);
+  }
+
+  public get isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  public start(micStream: MediaStream) {
+    if (this.recorder) return;
+    this.mimeType = RECORDING_MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? '';
+    this.setMicStream(micStream);
+    this.modelOutput.connect(this.merger, 0, 1);
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(this.destination.stream, this.mimeType ? { mimeType: this.mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(RECORDER_TIMESLICE_MS);
+    this.startedAt = Date.now();
+  }
+
+  public setMicStream(stream: MediaStream) {
+    this.micSource?.disconnect();
+    this.micSource = this.ctx.createMediaStreamSource(stream);
+    this.micSource.connect(this.merger, 0, 0);
+  }
+
+  /** Stops recording and resolves with the finished audio; `transcript` is aligned to its t=0. */
+  public stop(transcript: TranscriptionItem[]): Promise<SessionCapture | null> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (!recorder || recorder.state === 'inactive') {
+      this.detach();
+      return Promise.resolve(null);
+    }
+
+    const startedAt = this.startedAt;
+    const durationMs = Date.now() - startedAt;
+    const aligned = alignTranscript(transcript, startedAt, durationMs);
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        this.detach();
+        const mimeType = recorder.mimeType || this.mimeType || 'audio/webm';
+        resolve(this.chunks.length ? { startedAt, durationMs, mimeType, audio: new Blob(this.chunks, { type: mimeType }), transcript: aligned } : null);
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  private detach() {
+    this.micSource?.disconnect();
+    this.micSource = null;
+    try { this.modelOutput.disconnect(this.merger); } catch (e) {}
+  }
+}
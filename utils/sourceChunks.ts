@@ -0,0 +1,177 @@
+import { LearningSource, SourceChunk } from '../types';
+import { parseTimestamp } from './transcripts';
+
+// ~1.5 paragraphs of prose; small enough that a budget holds chunks from many sections
+const TARGET_CHUNK_TOKENS = 350;
+// Carried into the next chunk so a passage cut at a boundary is still whole in one of them
+const OVERLAP_TOKENS = 60;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'just', 'me', 'more', 'my', 'no', 'not', 'of', 'on', 'or', 'other', 'our', 'so', 'some', 'such', 'than', 'that',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'too', 'us', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const PAGE_ANCHOR = /^\[p\. (\d+)\]$/;
+const HEADING = /^#{1,6}\s+(.+)$/;
+const TIMESTAMP_ANCHOR = /\[((?:\d+:)?\d{1,2}:\d{2})\]/;
+
+interface Piece {
+  text: string;
+  tokens: number;
+  newBlock: boolean; // Joined with a blank line; pieces split out of one block keep single newlines
+  page?: number;
+}
+
+/** Rough count for budgeting: Gemini averages about four characters of English per token. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Lowercased, accent-folded terms without stopwords; plurals folded to the singular. */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+
+// Splits an oversized block at lines (transcripts), then sentences, then words
+const splitBlock = (block: string): string[] => {
+  if (estimateTokens(block) <= TARGET_CHUNK_TOKENS) return [block];
+  const lines = block.split('\n').filter(l => l.trim());
+  if (lines.length > 1) return lines.flatMap(splitBlock);
+
+  const sentences = block.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [block];
+  if (sentences.length > 1) {
+    const parts: string[] = [];
+    let current = '';
+    sentences.forEach(sentence => {
+      if (current && estimateTokens(current + sentence) > TARGET_CHUNK_TOKENS) {
+        parts.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+    });
+    if (current.trim()) parts.push(current.trim());
+    return parts.flatMap(part => part === block ? [part] : splitBlock(part));
+  }
+
+  const words = block.split(/\s+/);
+  const perPart = Math.max(1, Math.floor(words.length * TARGET_CHUNK_TOKENS / estimateTokens(block)));
+  const parts: string[] = [];
+  for (let i = 0; i < words.length; i += perPart) parts.push(words.slice(i, i + perPart).join(' '));
+  return parts;
+};
+
+/**
+ * Cuts a source into overlapping chunks of about TARGET_CHUNK_TOKENS. Headings always open a new
+ * chunk (without overlap); otherwise chunks break between paragraphs, or between lines and
+ * sentences when a single paragraph is too long. Page and timestamp anchors stay in the text.
+ */
+export const chunkSource = (source: Pick<LearningSource, 'id' | 'content'>): SourceChunk[] => {
+  const chunks: SourceChunk[] = [];
+  let pieces: Piece[] = [];
+  let heading: string | undefined;
+  let page: number | undefined;
+  let freshTokens = 0; // Tokens not carried over from the previous chunk
+
+  const flush = (overlap: boolean) => {
+    if (freshTokens === 0) return;
+    const text = pieces.map((p, i) => i === 0 ? p.text : `${p.newBlock ? '\n\n' : '\n'}${p.text}`).join('');
+    const stamp = text.match(TIMESTAMP_ANCHOR);
+    const timestamp = stamp ? parseTimestamp(stamp[1]) : NaN;
+    chunks.push({
+      id: `${source.id}:${chunks.length}`,
+      sourceId: source.id,
+      index: chunks.length,
+      text,
+      heading,
+      page: pieces[0].page,
+      timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+      tokens: estimateTokens(text),
+    });
+
+    const carried: Piece[] = [];
+    let carriedTokens = 0;
+    if (overlap) {
+      for (let i = pieces.length - 1; i > 0 && carriedTokens + pieces[i].tokens <= OVERLAP_TOKENS; i--) {
+        carried.unshift(pieces[i]);
+        carriedTokens += pieces[i].tokens;
+      }
+    }
+    pieces = carried;
+    freshTokens = 0;
+  };
+
+  source.content.split(/\n{2,}/).map(b => b.trim()).filter(Boolean).forEach(block => {
+    const anchor = block.match(PAGE_ANCHOR);
+    if (anchor) page = parseInt(anchor[1], 10);
+
+    const headingMatch = block.match(HEADING);
+    if (headingMatch) {
+      // A page anchor right before the heading belongs to the new chunk
+      let split = pieces.length;
+      while (split > 0 && PAGE_ANCHOR.test(pieces[split - 1].text)) split--;
+      const pending = pieces.slice(split);
+      pieces = pieces.slice(0, split);
+      flush(false);
+      pieces = pending;
+      heading = headingMatch[1].trim();
+    }
+
+    splitBlock(block).forEach((text, i) => {
+      const tokens = estimateTokens(text);
+      // Chunks under a quarter of the target take the next piece anyway rather than stand alone
+      if (freshTokens >= TARGET_CHUNK_TOKENS / 4 && pieces.reduce((n, p) => n + p.tokens, 0) + tokens > TARGET_CHUNK_TOKENS) flush(true);
+      pieces.push({ text, tokens, newBlock: i === 0, page });
+      // A lone page anchor shouldn't make a chunk of its own
+      if (!anchor) freshTokens += tokens;
+    });
+  });
+  flush(false);
+  return chunks;
+};
+
+export interface Bm25Document {
+  terms: Map<string, number>; // Term frequencies
+  length: number;
+}
+
+export const toBm25Document = (text: string): Bm25Document => {
+  const terms = new Map<string, number>();
+  const tokens = tokenize(text);
+  tokens.forEach(t => terms.set(t, (terms.get(t) ?? 0) + 1));
+  return { terms, length: tokens.length };
+};
+
+/** Okapi BM25 score of every document for the query, with corpus statistics taken from `docs`. */
+export const scoreBm25 = (query: string, docs: Bm25Document[]): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+  const avgLength = docs.reduce((n, d) => n + d.length, 0) / docs.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const df = docs.reduce((n, d) => n + (d.terms.has(term) ? 1 : 0), 0);
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))] as const;
+  }));
+
+  return docs.map(doc => queryTerms.reduce((score, term) => {
+    const tf = doc.terms.get(term) ?? 0;
+    if (tf === 0) return score;
+    return score + idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+  }, 0));
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
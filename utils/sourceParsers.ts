@@ -0,0 +1,429 @@
+import { LearningSource, SourceSection, TranscriptSegment } from '../types';
+import { extractPdfText } from './pdfText';
+import { captionFormatOf, mergeTranscriptSegments, parseCaptions, transcriptToContent } from './transcripts';
+import { ZipArchive } from './zip';
+
+export interface ParsedSource {
+  content: string; // Normalised text; headings as Markdown "#" lines
+  outline: SourceSection[];
+  title?: string; // From document metadata, used when the user gave none
+  pageCount?: number;
+  transcript?: TranscriptSegment[];
+}
+
+export interface SourceParserContext {
+  report: (message: string) => void; // Progress shown as the source's status message
+  transcribeMedia: (file: File) => Promise<TranscriptSegment[] | null>;
+}
+
+export interface SourceParser {
+  label: string;
+  sourceType: LearningSource['type'];
+  mimeTypes: string[]; // "audio/*" style wildcards match a whole family
+  extensions: string[]; // Browsers report no MIME type for .md, .epub, .srt, ...
+  parse: (file: File, context: SourceParserContext) => Promise<ParsedSource>;
+}
+
+/** A file was read but holds nothing usable; the message is shown as the source's status. */
+export class SourceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceParseError';
+  }
+}
+
+const registry = new Map<string, SourceParser>();
+const byExtension = new Map<string, SourceParser>();
+
+export const registerSourceParser = (parser: SourceParser) => {
+  parser.mimeTypes.forEach(mime => registry.set(mime, parser));
+  parser.extensions.forEach(ext => byExtension.set(ext, parser));
+};
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() ?? '';
+
+// Types browsers report for files they don't recognise; the extension says more
+const GENERIC_MIME_TYPES = new Set(['', 'text/plain', 'application/octet-stream', 'application/zip']);
+
+/** Parser for a file by MIME type (exact, then family wildcard), falling back to the extension. */
+export const findSourceParser = (file: File): SourceParser | null => {
+  const mime = file.type.toLowerCase().split(';')[0];
+  const fromExtension = byExtension.get(extensionOf(file.name));
+  if (GENERIC_MIME_TYPES.has(mime) && fromExtension) return fromExtension;
+  return registry.get(mime)
+    ?? registry.get(`${mime.split('/')[0]}/*`)
+    ?? fromExtension
+    ?? null;
+};
+
+/** Value for a file input's `accept` attribute covering every registered parser. */
+export const acceptedSourceTypes = (): string =>
+  [...Array.from(registry.keys()), ...Array.from(byExtension.keys()).map(ext => `.${ext}`)].join(',');
+
+// --- Shared text helpers ---
+
+const collapse = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+const outlineFromContent = (content: string): SourceSection[] =>
+  content.split('\n')
+    .map(line => line.match(/^(#{1,6})\s+(.+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => ({ title: m[2].trim(), level: m[1].length }));
+
+const assertContent = (parsed: ParsedSource, what: string): ParsedSource => {
+  if (collapse(parsed.content).length === 0) throw new SourceParseError(`No readable text found in this ${what}`);
+  return parsed;
+};
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+  'FOOTER', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'SECTION', 'SUMMARY', 'TABLE', 'TBODY', 'THEAD', 'TR', 'UL', 'BR',
+]);
+
+/** Element tree to normalised text: one paragraph per block, headings as "#" lines, table cells joined by "|". */
+const htmlToText = (root: Element): string => {
+  const blocks: string[] = [];
+  let current = '';
+  const flush = () => {
+    const text = collapse(current).replace(/\s*\|\s*$/, '');
+    if (text && text !== '-') blocks.push(text);
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent;
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    const heading = /^H([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const title = collapse(el.textContent);
+      if (title) blocks.push(`${'#'.repeat(parseInt(heading[1], 10))} ${title}`);
+      return;
+    }
+    if (tag === 'PRE') {
+      flush();
+      const code = (el.textContent ?? '').replace(/\s+$/, '');
+      if (code) blocks.push(code);
+      return;
+    }
+    if (tag === 'IMG') {
+      const alt = collapse(el.getAttribute('alt'));
+      if (alt) current += ` ${alt} `;
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    if (tag === 'LI') current += '- ';
+    el.childNodes.forEach(walk);
+    if (tag === 'TD' || tag === 'TH') current += ' | ';
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks.join('\n\n');
+};
+
+// --- Markdown ---
+
+const normaliseMarkdown = (raw: string): string => {
+  const lines = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n');
+
+  const out: string[] = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence || /^\s*(```|~~~)/.test(line)) {
+      out.push(line);
+      return;
+    }
+    // Setext headings ("Title" over "=====") become ATX so the outline sees one form
+    const next = lines[i + 1] ?? '';
+    if (line.trim() && /^=+\s*$/.test(next)) { out.push(`# ${line.trim()}`); return; }
+    if (line.trim() && /^-+\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) { out.push(`## ${line.trim()}`); return; }
+    if (/^(=+|-+)\s*$/.test(line) && out.length > 0 && /^#{1,2} /.test(out[out.length - 1])) return;
+    if (/^\s*\[[^\]]+\]:\s+\S+/.test(line)) return; // Link reference definitions
+
+    out.push(line
+      .replace(/^(#{1,6})\s+(.*?)\s*#*\s*$/, '$1 $2')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/<\/?[a-z][^>]*>/gi, ''));
+  });
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// --- HTML (readability-style) ---
+
+const NOISE_TAGS = 'script,style,noscript,template,iframe,svg,canvas,form,button,input,select,textarea,object,embed';
+const CHROME_SELECTOR = 'nav,aside,footer,[role=navigation],[role=banner],[role=contentinfo],[role=complementary],[aria-hidden=true]';
+const NEGATIVE_HINT = /comment|sidebar|footer|masthead|menu|nav|share|social|promo|related|sponsor|advert|\bad-|cookie|banner|breadcrumb|subscribe|newsletter|popup|modal/i;
+const POSITIVE_HINT = /article|body|content|entry|main|post|story|text|blog/i;
+
+const hintsOf = (el: Element) => `${el.getAttribute('class') ?? ''} ${el.id}`;
+
+const linkDensity = (el: Element) => {
+  const textLength = collapse(el.textContent).length || 1;
+  const linkLength = Array.from(el.querySelectorAll('a')).reduce((n, a) => n + collapse(a.textContent).length, 0);
+  return linkLength / textLength;
+};
+
+/** Picks the element holding the main content: <article>/<main> when unambiguous, else paragraph scoring. */
+const findMainContent = (doc: Document): Element => {
+  const articles = doc.querySelectorAll('article');
+  if (articles.length === 1) return articles[0];
+  const main = doc.querySelector('main, [role=main]');
+  if (main) return main;
+
+  const scores = new Map<Element, number>();
+  doc.querySelectorAll('p, pre, td, blockquote').forEach(p => {
+    const text = collapse(p.textContent);
+    if (text.length < 25) return;
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    const parent = p.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  });
+
+  const ranked = Array.from(scores.entries()).map(([el, score]) => {
+    const hints = hintsOf(el);
+    return { el, score: (score + (POSITIVE_HINT.test(hints) ? 25 : 0) - (NEGATIVE_HINT.test(hints) ? 25 : 0)) * (1 - linkDensity(el)) };
+  }).sort((a, b) => b.score - a.score);
+  return ranked[0]?.score > 0 ? ranked[0].el : doc.body;
+};
+
+const cleanMainContent = (root: Element) => {
+  root.querySelectorAll(CHROME_SELECTOR).forEach(el => el.remove());
+  root.querySelectorAll('div, section, ul, ol, table').forEach(el => {
+    if (!el.isConnected) return;
+    const textLength = collapse(el.textContent).length;
+    // Link lists and decorated boxes ("Related", "Share this") rather than prose
+    if ((NEGATIVE_HINT.test(hintsOf(el)) && textLength < 1000) || (linkDensity(el) > 0.5 && textLength < 500)) el.remove();
+  });
+};
+
+export const parseHtmlDocument = (html: string): ParsedSource => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(NOISE_TAGS).forEach(el => el.remove());
+  const title = collapse(doc.querySelector('meta[property="og:title"]')?.getAttribute('content'))
+    || collapse(doc.title)
+    || collapse(doc.querySelector('h1')?.textContent);
+
+  const main = findMainContent(doc);
+  cleanMainContent(main);
+  const content = htmlToText(main);
+  return { content, outline: outlineFromContent(content), title: title || undefined };
+};
+
+// --- DOCX ---
+
+const docxParagraphText = (p: Element): string => {
+  let text = '';
+  p.querySelectorAll('*').forEach(node => {
+    if (node.tagName === 'w:t') text += node.textContent ?? '';
+    else if (node.tagName === 'w:tab') text += ' ';
+    else if (node.tagName === 'w:br' || node.tagName === 'w:cr') text += ' ';
+  });
+  return collapse(text);
+};
+
+const parseDocx = async (file: File): Promise<ParsedSource> => {
+  const zip = new ZipArchive(await file.arrayBuffer());
+  const documentXml = await zip.readText('word/document.xml');
+  if (!documentXml) throw new SourceParseError('Not a Word document (word/document.xml missing)');
+  const parser = new DOMParser();
+
+  // Heading styles are matched by their built-in names; style ids are localised ("berschrift1")
+  const headingLevels = new Map<string, number>();
+  const stylesXml = await zip.readText('word/styles.xml');
+  if (stylesXml) {
+    Array.from(parser.parseFromString(stylesXml, 'application/xml').getElementsByTagName('w:style')).forEach(style => {
+      const id = style.getAttribute('w:styleId');
+      const name = (style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') ?? '').toLowerCase();
+      const outline = style.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+      const heading = /^heading (\d)$/.exec(name);
+      const level = name === 'title' ? 1 : heading ? parseInt(heading[1], 10) : outline ? parseInt(outline, 10) + 1 : 0;
+      if (id && level > 0) headingLevels.set(id, Math.min(level, 6));
+    });
+  }
+
+  const doc = parser.parseFromString(documentXml, 'application/xml');
+  const body = doc.getElementsByTagName('w:body')[0];
+  if (!body) throw new SourceParseError('Word document has no body');
+
+  // Content controls (w:sdt) wrap ordinary paragraphs and tables
+  const bodyBlocks = (parent: Element): Element[] => Array.from(parent.children).flatMap(child =>
+    child.tagName === 'w:sdt' ? bodyBlocks(child.getElementsByTagName('w:sdtContent')[0] ?? child) : [child]);
+
+  const blocks: string[] = [];
+  bodyBlocks(body).forEach(block => {
+    if (block.tagName === 'w:p') {
+      const text = docxParagraphText(block);
+      if (!text) return;
+      const props = block.getElementsByTagName('w:pPr')[0];
+      const styleId = props?.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') ?? '';
+      const outlineLevel = props?.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+      const level = headingLevels.get(styleId) ?? (outlineLevel ? parseInt(outlineLevel, 10) + 1 : 0);
+      const isListItem = !!props?.getElementsByTagName('w:numPr')[0];
+      blocks.push(level > 0 && level <= 6 ? `${'#'.repeat(level)} ${text}` : isListItem ? `- ${text}` : text);
+    } else if (block.tagName === 'w:tbl') {
+      Array.from(block.getElementsByTagName('w:tr')).forEach(row => {
+        const cells = Array.from(row.getElementsByTagName('w:tc')).map(cell =>
+          Array.from(cell.getElementsByTagName('w:p')).map(docxParagraphText).filter(Boolean).join(' '));
+        if (cells.some(Boolean)) blocks.push(cells.join(' | '));
+      });
+    }
+  });
+
+  const coreXml = await zip.readText('docProps/core.xml');
+  const title = coreXml ? collapse(parser.parseFromString(coreXml, 'application/xml').getElementsByTagName('dc:title')[0]?.textContent) : '';
+  const content = blocks.join('\n\n');
+  return assertContent({ content, outline: outlineFromContent(content), title: title || undefined }, 'Word document');
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base.includes('/') ? base.slice(0, base.lastIndexOf('/') + 1) : '').concat(decodeURIComponent(href.split('#')[0])).split('/');
+  const out: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') out.pop();
+    else if (part && part !== '.') out.push(part);
+  });
+  return out.join('/');
+};
+
+const parseEpub = async (file: File, { report }: SourceParserContext): Promise<ParsedSource> => {
+  const zip = new ZipArchive(await file.arrayBuffer());
+  const parser = new DOMParser();
+  const container = await zip.readText('META-INF/container.xml');
+  const opfPath = container ? parser.parseFromString(container, 'application/xml').querySelector('rootfile')?.getAttribute('full-path') : null;
+  const opfXml = opfPath ? await zip.readText(opfPath) : null;
+  if (!opfPath || !opfXml) throw new SourceParseError('Not an EPUB book (package file missing)');
+
+  const opf = parser.parseFromString(opfXml, 'application/xml');
+  const manifest = new Map<string, { href: string; type: string }>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    manifest.set(item.getAttribute('id') ?? '', { href: item.getAttribute('href') ?? '', type: item.getAttribute('media-type') ?? '' });
+  });
+  const spine = Array.from(opf.getElementsByTagName('itemref'))
+    .map(ref => manifest.get(ref.getAttribute('idref') ?? ''))
+    .filter((item): item is { href: string; type: string } => !!item && /html/.test(item.type));
+
+  const chapters: string[] = [];
+  for (let i = 0; i < spine.length; i++) {
+    report(`Reading chapter ${i + 1} of ${spine.length}`);
+    const xhtml = await zip.readText(resolvePath(opfPath, spine[i].href));
+    if (!xhtml) continue;
+    let doc = parser.parseFromString(xhtml, 'application/xhtml+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) doc = parser.parseFromString(xhtml, 'text/html');
+    doc.querySelectorAll(NOISE_TAGS).forEach(el => el.remove());
+    const body = doc.querySelector('body');
+    const text = body ? htmlToText(body) : '';
+    if (text) chapters.push(text);
+  }
+
+  const title = collapse(opf.getElementsByTagName('dc:title')[0]?.textContent);
+  const content = chapters.join('\n\n');
+  return assertContent({ content, outline: outlineFromContent(content), title: title || undefined }, 'book');
+};
+
+// --- Registry ---
+
+registerSourceParser({
+  label: 'PDF',
+  sourceType: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['pdf'],
+  parse: async (file, { report }) => {
+    const result = await extractPdfText(await file.arrayBuffer(), (page, pageCount) => report(`Extracting page ${page} of ${pageCount}`));
+    const outline = result.pages.flatMap(page => page.lines
+      .filter(line => line.heading > 0)
+      .map(line => ({ title: line.text, level: line.heading, page: page.number })));
+    return { content: result.text, outline, pageCount: result.pageCount };
+  },
+});
+
+registerSourceParser({
+  label: 'Captions',
+  sourceType: 'media',
+  mimeTypes: ['text/vtt', 'application/x-subrip', 'text/srt'],
+  extensions: ['vtt', 'srt'],
+  parse: async file => {
+    const segments = mergeTranscriptSegments(parseCaptions(await file.text(), captionFormatOf(file.name) ?? (file.type === 'text/vtt' ? 'vtt' : 'srt')));
+    if (segments.length === 0) throw new SourceParseError('No captions found in this file');
+    return { content: transcriptToContent(segments), outline: [], transcript: segments };
+  },
+});
+
+registerSourceParser({
+  label: 'Audio / Video',
+  sourceType: 'media',
+  mimeTypes: ['audio/*', 'video/*'],
+  extensions: ['mp3', 'wav', 'm4a', 'ogg', 'mp4', 'webm', 'mov'],
+  parse: async (file, { report, transcribeMedia }) => {
+    report('Transcribing with Gemini…');
+    const segments = await transcribeMedia(file);
+    if (segments === null) throw new SourceParseError('Transcription failed; check the file format and try again');
+    if (segments.length === 0) throw new SourceParseError('No speech found in this recording');
+    return { content: transcriptToContent(segments), outline: [], transcript: segments };
+  },
+});
+
+registerSourceParser({
+  label: 'Markdown',
+  sourceType: 'markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['md', 'markdown'],
+  parse: async file => {
+    const content = normaliseMarkdown(await file.text());
+    const outline = outlineFromContent(content.replace(/^(```|~~~)[\s\S]*?^\1/gm, ''));
+    return assertContent({ content, outline, title: outline.find(s => s.level === 1)?.title }, 'Markdown file');
+  },
+});
+
+registerSourceParser({
+  label: 'Web Page',
+  sourceType: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['html', 'htm', 'xhtml'],
+  parse: async file => assertContent(parseHtmlDocument(await file.text()), 'page'),
+});
+
+registerSourceParser({
+  label: 'Word',
+  sourceType: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['docx'],
+  parse: parseDocx,
+});
+
+registerSourceParser({
+  label: 'EPUB',
+  sourceType: 'epub',
+  mimeTypes: ['application/epub+zip'],
+  extensions: ['epub'],
+  parse: parseEpub,
+});
+
+registerSourceParser({
+  label: 'Text',
+  sourceType: 'text',
+  mimeTypes: ['text/plain'],
+  extensions: ['txt'],
+  parse: async file => {
+    const content = (await file.text()).replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    return assertContent({ content, outline: [] }, 'file');
+  },
+});
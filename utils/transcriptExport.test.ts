@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionItem } from '../types';
+import { parseTranscriptJson, transcriptToJson } from './transcriptExport';
+
+const ITEMS: TranscriptionItem[] = [
+  { id: 'u1', role: 'user', text: 'What is chlorophyll?', timestamp: new Date('2026-01-05T10:00:00Z'), isFinal: true, endTimestamp: new Date('2026-01-05T10:00:03Z'), inputMode: 'typed' },
+  { id: 'a1', role: 'assistant', text: 'The green pigment in', timestamp: new Date('2026-01-05T10:00:04Z'), isFinal: true, interrupted: true },
+];
+
+describe('parseTranscriptJson', () => {
+  it('reads back an export with its turn fields', () => {
+    const imported = parseTranscriptJson(transcriptToJson(ITEMS, { title: 'Biology' }));
+    expect(imported.title).toBe('Biology');
+    expect(imported.startedAt).toEqual(ITEMS[0].timestamp);
+    expect(imported.items).toEqual(ITEMS);
+  });
+
+  it('keeps only the fields a transcript item has', () => {
+    const [item] = parseTranscriptJson(JSON.stringify([
+      { id: 7, role: 'assistant', text: 'Hi.', timestamp: '2026-01-05T10:00:00Z', offsetMs: 0, isFinal: 'yes', inputMode: 'telepathy', audio: 'AAAA' },
+    ])).items;
+    expect(item).toEqual({ id: '7', role: 'assistant', text: 'Hi.', timestamp: new Date('2026-01-05T10:00:00Z') });
+  });
+
+  it('rejects items without a role, text or timestamp', () => {
+    const bad = (item: unknown) => () => parseTranscriptJson(JSON.stringify([ITEMS[0], item]));
+    expect(bad({ role: 'narrator', text: 'Hi.', timestamp: '2026-01-05T10:00:00Z' })).toThrow('Transcript item 2 is malformed');
+    expect(bad({ role: 'user', text: ['Hi.'], timestamp: '2026-01-05T10:00:00Z' })).toThrow('Transcript item 2 is malformed');
+    expect(bad({ role: 'user', text: 'Hi.', timestamp: { at: 'noon' } })).toThrow('Transcript item 2 is malformed');
+    expect(bad(null)).toThrow('Transcript item 2 is malformed');
+  });
+
+  it('rejects files that are not transcript exports', () => {
+    expect(() => parseTranscriptJson('{"items": []}')).toThrow('Not a transcript export');
+    expect(() => parseTranscriptJson('not json')).toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,189 @@
+
+import { TranscriptionItem } from '../types';
+import { downloadBlob } from './download';
+
+export type TranscriptExportFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: { id: TranscriptExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+];
+
+export interface TranscriptExportOptions {
+  title?: string;
+  startedAt?: Date; // t=0 for relative timestamps; defaults to the first item
+  speakerLabels?: Partial<Record<TranscriptionItem['role'], string>>;
+}
+
+export interface ImportedTranscript {
+  title?: string;
+  startedAt: Date;
+  items: TranscriptionItem[];
+}
+
+const JSON_FORMAT_ID = 'nexus-transcript';
+const JSON_FORMAT_VERSION = 1;
+
+// Subtitle cues with no following line are held for roughly reading/speaking time
+const WORDS_PER_SECOND = 2.7;
+const MIN_CUE_MS = 1200;
+
+const DEFAULT_SPEAKERS: Record<TranscriptionItem['role'], string> = { user: 'User', assistant: 'Assistant', system: 'System' };
+
+const speakerFor = (item: TranscriptionItem, options: TranscriptExportOptions) =>
+  options.speakerLabels?.[item.role] ?? DEFAULT_SPEAKERS[item.role];
+
+const sessionStart = (items: TranscriptionItem[], options: TranscriptExportOptions): number =>
+  options.startedAt?.getTime() ?? (items.length ? Math.min(...items.map(i => new Date(i.timestamp).getTime())) : Date.now());
+
+const offsetOf = (item: TranscriptionItem, startMs: number) => Math.max(0, new Date(item.timestamp).getTime() - startMs);
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+/** HH:MM:SS plus `,mmm` (SRT) or `.mmm` (WebVTT); no millis for the Markdown clock. */
+const formatOffset = (ms: number, millisSeparator?: ',' | '.') => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const clock = `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+  return millisSeparator ? `${clock}${millisSeparator}${pad(Math.floor(ms % 1000), 3)}` : clock;
+};
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+  text: string;
+}
+
+// Spoken turns only; each cue runs until the next one starts or its estimated speaking time ends
+const buildCues = (items: TranscriptionItem[], options: TranscriptExportOptions): Cue[] => {
+  const startMs = sessionStart(items, options);
+  const spoken = items
+    .filter(i => i.role !== 'system' && i.text.trim())
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  return spoken.map((item, i) => {
+    const cueStart = offsetOf(item, startMs);
+    const words = item.text.trim().split(/\s+/).length;
+    const estimatedEnd = cueStart + Math.max(MIN_CUE_MS, (words / WORDS_PER_SECOND) * 1000);
+    const next = spoken[i + 1];
+    const nextStart = next ? offsetOf(next, startMs) : Infinity;
+    // Never collapse a cue to nothing when two turns share a timestamp
+    const endMs = nextStart > cueStart ? Math.min(estimatedEnd, nextStart) : estimatedEnd;
+    return { startMs: cueStart, endMs: Math.round(endMs), speaker: speakerFor(item, options), text: item.text.trim() };
+  });
+};
+
+export const transcriptToMarkdown = (items: TranscriptionItem[], options: TranscriptExportOptions = {}): string => {
+  const startMs = sessionStart(items, options);
+  const lines = [`# ${options.title || 'Transcript'}`, '', `_Session started ${new Date(startMs).toLocaleString()}_`, ''];
+  items.forEach(item => {
+    if (item.role === 'system') {
+      lines.push(`> _${item.text}_ (${formatOffset(offsetOf(item, startMs))})`, '');
+      return;
+    }
+    const flags = [item.inputMode === 'typed' ? 'typed' : null, item.interrupted ? 'interrupted' : null].filter(Boolean);
+    lines.push(`## ${speakerFor(item, options)} · ${formatOffset(offsetOf(item, startMs))}${flags.length ? ` (${flags.join(', ')})` : ''}`, '', item.text, '');
+  });
+  return lines.join('\n');
+};
+
+export const transcriptToJson = (items: TranscriptionItem[], options: TranscriptExportOptions = {}): string => {
+  const startMs = sessionStart(items, options);
+  return JSON.stringify({
+    format: JSON_FORMAT_ID,
+    version: JSON_FORMAT_VERSION,
+    title: options.title,
+    startedAt: new Date(startMs).toISOString(),
+    exportedAt: new Date().toISOString(),
+    items: items.map(item => ({
+      ...item,
+      timestamp: new Date(item.timestamp).toISOString(),
+      endTimestamp: item.endTimestamp ? new Date(item.endTimestamp).toISOString() : undefined,
+      offsetMs: offsetOf(item, startMs),
+    })),
+  }, null, 2);
+};
+
+export const transcriptToSrt = (items: TranscriptionItem[], options: TranscriptExportOptions = {}): string =>
+  buildCues(items, options)
+    .map((cue, i) => `${i + 1}\n${formatOffset(cue.startMs, ',')} --> ${formatOffset(cue.endMs, ',')}\n${cue.speaker}: ${cue.text}\n`)
+    .join('\n');
+
+export const transcriptToWebVtt = (items: TranscriptionItem[], options: TranscriptExportOptions = {}): string => {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = buildCues(items, options).map(cue =>
+    `${formatOffset(cue.startMs, '.')} --> ${formatOffset(cue.endMs, '.')}\n<v ${escape(cue.speaker)}>${escape(cue.text)}\n`
+  );
+  return ['WEBVTT', '', ...cues].join('\n');
+};
+
+export const exportTranscript = (items: TranscriptionItem[], format: TranscriptExportFormat, options: TranscriptExportOptions = {}): string => {
+  switch (format) {
+    case 'markdown': return transcriptToMarkdown(items, options);
+    case 'json': return transcriptToJson(items, options);
+    case 'srt': return transcriptToSrt(items, options);
+    case 'vtt': return transcriptToWebVtt(items, options);
+  }
+};
+
+export const downloadTranscript = (items: TranscriptionItem[], format: TranscriptExportFormat, filenameBase: string, options: TranscriptExportOptions = {}) => {
+  const meta = TRANSCRIPT_FORMATS.find(f => f.id === format)!;
+  const blob = new Blob([exportTranscript(items, format, options)], { type: `${meta.mimeType};charset=utf-8` });
+  downloadBlob(blob, `${filenameBase}.${meta.extension}`);
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isRole = (v: unknown): v is TranscriptionItem['role'] => v === 'user' || v === 'assistant' || v === 'system';
+
+const toDate = (v: unknown): Date | undefined => {
+  if (typeof v !== 'string' && typeof v !== 'number') return undefined;
+  const date = new Date(v);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Only the fields TranscriptionItem knows are read back; offsetMs is derived on export and dropped
+const readTranscriptItem = (raw: unknown, index: number): TranscriptionItem => {
+  const timestamp = isRecord(raw) ? toDate(raw.timestamp) : undefined;
+  if (!isRecord(raw) || typeof raw.text !== 'string' || !isRole(raw.role) || !timestamp) {
+    throw new Error(`Transcript item ${index + 1} is malformed`);
+  }
+  const item: TranscriptionItem = {
+    id: typeof raw.id === 'string' || typeof raw.id === 'number' ? String(raw.id) : `imported-${index}`,
+    role: raw.role,
+    text: raw.text,
+    timestamp,
+  };
+  const endTimestamp = toDate(raw.endTimestamp);
+  if (endTimestamp) item.endTimestamp = endTimestamp;
+  if (typeof raw.isFinal === 'boolean') item.isFinal = raw.isFinal;
+  if (typeof raw.interrupted === 'boolean') item.interrupted = raw.interrupted;
+  if (raw.inputMode === 'voice' || raw.inputMode === 'typed') item.inputMode = raw.inputMode;
+  return item;
+};
+
+/** Reverses `transcriptToJson`. Also accepts a bare array of items. Throws on anything else. */
+export const parseTranscriptJson = (raw: string): ImportedTranscript => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    throw new Error('Transcript file is not valid JSON');
+  }
+
+  const envelope = isRecord(parsed) ? parsed : undefined;
+  if (!Array.isArray(parsed)) {
+    if (envelope?.format !== JSON_FORMAT_ID) throw new Error('Not a transcript export (missing format marker)');
+    if (typeof envelope.version !== 'number' || envelope.version > JSON_FORMAT_VERSION) {
+      throw new Error(`Unsupported transcript version ${envelope.version}`);
+    }
+  }
+  const rawItems = Array.isArray(parsed) ? parsed : envelope?.items;
+  if (!Array.isArray(rawItems)) throw new Error('Transcript has no items');
+
+  const items = rawItems.map(readTranscriptItem);
+  const startedAt = toDate(envelope?.startedAt) ?? items[0]?.timestamp ?? new Date();
+  return { title: typeof envelope?.title === 'string' ? envelope.title : undefined, startedAt, items };
+};
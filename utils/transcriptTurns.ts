@@ -0,0 +1,62 @@
+
+import { TranscriptionItem } from '../types';
+
+type SpeakerRole = 'user' | 'assistant';
+
+let idCounter = 0;
+
+/** Unique even for items created in the same millisecond (or restored from an archive). */
+export const createTranscriptId = (prefix: string = 'turn'): string => {
+  idCounter += 1;
+  const random = typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID().slice(0, 8)
+    : Math.random().toString(36).slice(2, 10);
+  return `${prefix}-${Date.now().toString(36)}-${idCounter.toString(36)}-${random}`;
+};
+
+/**
+ * Appends a streamed transcription fragment to turn `turnId`, creating the turn on its first
+ * fragment. The caller owns which turn is open, so this stays pure (safe in state updaters).
+ */
+export const appendTurnFragment = (
+  items: TranscriptionItem[],
+  turnId: string,
+  role: SpeakerRole,
+  text: string,
+  now: Date = new Date()
+): TranscriptionItem[] => {
+  const index = items.findIndex(i => i.id === turnId);
+  if (index < 0) {
+    return [...items, { id: turnId, role, text, timestamp: now, isFinal: false }];
+  }
+  const updated = [...items];
+  updated[index] = { ...items[index], text: items[index].text + text };
+  return updated;
+};
+
+/** Closes a turn: marks it final, stamps its end, and flags it if the model was cut off. */
+export const finalizeTurn = (
+  items: TranscriptionItem[],
+  turnId: string | null,
+  options: { interrupted?: boolean; now?: Date } = {}
+): TranscriptionItem[] => {
+  if (!turnId) return items;
+  const index = items.findIndex(i => i.id === turnId);
+  if (index < 0 || items[index].isFinal) return items;
+  const updated = [...items];
+  updated[index] = {
+    ...items[index],
+    isFinal: true,
+    endTimestamp: options.now ?? new Date(),
+    ...(options.interrupted ? { interrupted: true } : {}),
+  };
+  return updated;
+};
+
+export const createSystemItem = (text: string): TranscriptionItem => ({
+  id: createTranscriptId('system'),
+  role: 'system',
+  text,
+  timestamp: new Date(),
+  isFinal: true,
+});
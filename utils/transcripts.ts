@@ -0,0 +1,97 @@
+import { TranscriptSegment } from '../types';
+
+// Cues are merged into readable segments, but never across a speaker change or past this span,
+// so every timestamp anchor stays close to what it points at
+const MAX_SEGMENT_SECONDS = 30;
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export const captionFormatOf = (fileName: string): CaptionFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  return ext === 'vtt' || ext === 'srt' ? ext : null;
+};
+
+/** "01:02:03.500", "02:03,5" or "2:03" to seconds; NaN when it isn't a timestamp. */
+export const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+  const [, h, m, s, frac] = match;
+  return (parseInt(h || '0', 10) * 3600) + parseInt(m, 10) * 60 + parseInt(s, 10) + (frac ? parseInt(frac.padEnd(3, '0'), 10) / 1000 : 0);
+};
+
+/** 754 -> "12:34", 3723 -> "1:02:03" */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ').replace(/&#39;|&apos;/g, "'").replace(/&quot;/g, '"');
+
+// "<v Jane Doe>Hello" (WebVTT voice) or a ">> JANE: Hello" / "[Jane] Hello" style prefix
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const voice = text.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+  if (voice) return { speaker: voice[1].trim(), text: text.slice(voice[0].length) };
+  const prefix = text.match(/^(?:-\s*|>>\s*)?(?:\[([^\]]{1,40})\]|([A-Z][A-Z0-9 .'-]{0,30}):)\s+/);
+  if (prefix) return { speaker: (prefix[1] || prefix[2]).trim(), text: text.slice(prefix[0].length) };
+  return { text };
+};
+
+const stripMarkup = (text: string) => decodeEntities(text.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+/** Parses WebVTT / SubRip cues into timed segments (one per cue, before merging). */
+export const parseCaptions = (raw: string, format: CaptionFormat): TranscriptSegment[] => {
+  const blocks = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: TranscriptSegment[] = [];
+  let previousLines: string[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(l => l.trim().length > 0);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) return; // WEBVTT header, NOTE/STYLE blocks, SRT garbage
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const [from, to] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    if (Number.isNaN(start)) return;
+
+    // Auto-generated captions roll: each cue repeats the previous cue's last line
+    const textLines = lines.slice(timingIndex + 1).filter(l => !previousLines.includes(l));
+    previousLines = lines.slice(timingIndex + 1);
+    if (textLines.length === 0) return;
+
+    const { speaker, text } = splitSpeaker(textLines.join(' '));
+    const clean = stripMarkup(text);
+    // Captions usually name a speaker only when it changes
+    if (clean) cues.push({ start, end: Number.isNaN(end) ? undefined : end, speaker: speaker ?? cues[cues.length - 1]?.speaker, text: clean });
+  });
+  return cues;
+};
+
+/** Joins consecutive cues from the same speaker into sentence-ish segments. */
+export const mergeTranscriptSegments = (cues: TranscriptSegment[]): TranscriptSegment[] => {
+  const merged: TranscriptSegment[] = [];
+  cues.forEach(cue => {
+    const last = merged[merged.length - 1];
+    const canMerge = last
+      && last.speaker === cue.speaker
+      && cue.start - last.start < MAX_SEGMENT_SECONDS
+      && !/[.!?]["')\]]?$/.test(last.text);
+    if (canMerge) {
+      last.text = `${last.text} ${cue.text}`;
+      last.end = cue.end ?? last.end;
+    } else {
+      merged.push({ ...cue });
+    }
+  });
+  return merged;
+};
+
+/** Source content for a transcript: one "[12:34] Speaker: text" line per segment. */
+export const transcriptToContent = (segments: TranscriptSegment[]): string =>
+  segments.map(s => `[${formatTimestamp(s.start)}]${s.speaker ? ` ${s.speaker}:` : ''} ${s.text}`).join('\n');
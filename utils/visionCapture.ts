@@ -0,0 +1,110 @@
+
+// Vision sources: front/back camera or a shared screen, window or tab
+export type VisionSource = 'camera' | 'screen';
+
+/** Region of interest in normalized video coordinates (0..1). */
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_FRAME: RegionOfInterest = { x: 0, y: 0, width: 1, height: 1 };
+
+// Long-edge caps offered in the UI; screen text stays legible at 1280 while keeping frames small
+export const VISION_MAX_RESOLUTIONS = [640, 960, 1280, 1920] as const;
+export const DEFAULT_VISION_MAX_RESOLUTION = 1280;
+
+// A screen share only needs a few fps; frames are sampled far slower than this anyway
+const SCREEN_SHARE_FRAME_RATE = 5;
+const MIN_ROI_FRACTION = 0.02;
+
+export const supportsScreenShare = (): boolean => !!navigator.mediaDevices?.getDisplayMedia;
+
+/** Prompts for a screen/window/tab. Rejects with NotAllowedError if the user cancels the picker. */
+export const openScreenShare = async (): Promise<MediaStream> => {
+  if (!supportsScreenShare()) throw new Error('Screen sharing is not supported in this browser');
+  return navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: { ideal: SCREEN_SHARE_FRAME_RATE, max: SCREEN_SHARE_FRAME_RATE * 2 } },
+    audio: false,
+  });
+};
+
+export const isFullFrame = (roi: RegionOfInterest) =>
+  roi.x <= 0 && roi.y <= 0 && roi.width >= 1 && roi.height >= 1;
+
+/** Clamps to the frame and rejects slivers (an accidental click while selecting). */
+export const normalizeRegion = (roi: RegionOfInterest): RegionOfInterest | null => {
+  const x = Math.max(0, Math.min(1, roi.width < 0 ? roi.x + roi.width : roi.x));
+  const y = Math.max(0, Math.min(1, roi.height < 0 ? roi.y + roi.height : roi.y));
+  const width = Math.min(1 - x, Math.abs(roi.width));
+  const height = Math.min(1 - y, Math.abs(roi.height));
+  if (width < MIN_ROI_FRACTION || height < MIN_ROI_FRACTION) return null;
+  return { x, y, width, height };
+};
+
+/**
+ * Maps a point inside a video element to normalized video coordinates, accounting for the
+ * letterboxing of `object-contain` or the overflow of `object-cover`.
+ */
+export const clientPointToVideo = (video: HTMLVideoElement, clientX: number, clientY: number, fit: 'contain' | 'cover') => {
+  const rect = video.getBoundingClientRect();
+  const vw = video.videoWidth || rect.width;
+  const vh = video.videoHeight || rect.height;
+  const scale = fit === 'contain' ? Math.min(rect.width / vw, rect.height / vh) : Math.max(rect.width / vw, rect.height / vh);
+  const drawnW = vw * scale;
+  const drawnH = vh * scale;
+  const left = rect.left + (rect.width - drawnW) / 2;
+  const top = rect.top + (rect.height - drawnH) / 2;
+  return {
+    x: Math.max(0, Math.min(1, (clientX - left) / drawnW)),
+    y: Math.max(0, Math.min(1, (clientY - top) / drawnH)),
+  };
+};
+
+/** Inverse of `clientPointToVideo` for drawing the selection: region -> CSS box within the element. */
+export const videoRegionToElementBox = (video: HTMLVideoElement, roi: RegionOfInterest, fit: 'contain' | 'cover') => {
+  const rect = video.getBoundingClientRect();
+  const vw = video.videoWidth || rect.width;
+  const vh = video.videoHeight || rect.height;
+  const scale = fit === 'contain' ? Math.min(rect.width / vw, rect.height / vh) : Math.max(rect.width / vw, rect.height / vh);
+  const drawnW = vw * scale;
+  const drawnH = vh * scale;
+  return {
+    left: (rect.width - drawnW) / 2 + roi.x * drawnW,
+    top: (rect.height - drawnH) / 2 + roi.y * drawnH,
+    width: roi.width * drawnW,
+    height: roi.height * drawnH,
+  };
+};
+
+/**
+ * Crops the region of interest out of the current video frame and draws it into `canvas`,
+ * downscaled so its long edge is at most `maxDimension`. Returns false if no frame is ready.
+ */
+export const drawVisionFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  roi: RegionOfInterest,
+  maxDimension: number
+): boolean => {
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!vw || !vh || !ctx) return false;
+
+  const sx = Math.round(roi.x * vw);
+  const sy = Math.round(roi.y * vh);
+  const sw = Math.max(1, Math.round(roi.width * vw));
+  const sh = Math.max(1, Math.round(roi.height * vh));
+  const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, width, height);
+  return true;
+};
@@ -0,0 +1,97 @@
+
+import { AnalyzedPcmFrame } from './pcmCaptureWorklet';
+
+export interface VadConfig {
+  gateEnabled: boolean; // Drop non-speech frames instead of streaming everything
+  energyThresholdDb: number; // Frames quieter than this are never speech
+  flatnessThreshold: number; // Frames flatter (noisier) than this are never speech
+  attackMs: number; // Speech must persist this long before the gate opens
+  hangoverMs: number; // Gate stays open this long after speech stops
+  preRollMs: number; // Audio from just before the gate opened, sent so onsets aren't clipped
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  gateEnabled: true,
+  energyThresholdDb: -50,
+  flatnessThreshold: 0.45,
+  attackMs: 60,
+  hangoverMs: 600,
+  preRollMs: 200,
+};
+
+export interface VadResult {
+  isSpeaking: boolean;
+  transition: 'open' | 'close' | null;
+  frames: AnalyzedPcmFrame[]; // What to stream for this input frame (may include pre-roll)
+}
+
+/**
+ * Energy + spectral-flatness voice activity detector with attack/hangover smoothing.
+ * Speech is loud enough AND spectrally peaky; steady fans, hum and keyboard hiss are flat.
+ * Config is read on every frame so threshold changes apply live.
+ */
+export class VoiceActivityGate {
+  private open = false;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private preRoll: AnalyzedPcmFrame[] = [];
+
+  constructor(private getConfig: () => VadConfig) {}
+
+  public get isOpen() {
+    return this.open;
+  }
+
+  public process(frame: AnalyzedPcmFrame): VadResult {
+    const config = this.getConfig();
+    const isSpeechLike = frame.rmsDb >= config.energyThresholdDb && frame.flatness <= config.flatnessThreshold;
+
+    let transition: VadResult['transition'] = null;
+    if (isSpeechLike) {
+      this.speechMs += frame.durationMs;
+      this.silenceMs = 0;
+      if (!this.open && this.speechMs >= config.attackMs) {
+        this.open = true;
+        transition = 'open';
+      }
+    } else {
+      this.speechMs = 0;
+      if (this.open) {
+        this.silenceMs += frame.durationMs;
+        if (this.silenceMs >= config.hangoverMs) {
+          this.open = false;
+          this.silenceMs = 0;
+          transition = 'close';
+        }
+      }
+    }
+
+    let frames: AnalyzedPcmFrame[];
+    if (!config.gateEnabled) {
+      this.preRoll = [];
+      frames = [frame];
+    } else if (this.open && transition !== 'open') {
+      frames = [frame];
+    } else if (transition === 'open') {
+      frames = [...this.preRoll, frame];
+      this.preRoll = [];
+    } else {
+      // Closed: hold a short ring of recent audio for the next onset
+      this.preRoll.push(frame);
+      let heldMs = this.preRoll.reduce((sum, f) => sum + f.durationMs, 0);
+      while (this.preRoll.length > 0 && heldMs > config.preRollMs) {
+        heldMs -= this.preRoll.shift()!.durationMs;
+      }
+      frames = [];
+    }
+
+    return { isSpeaking: this.open, transition, frames };
+  }
+
+  public reset() {
+    this.open = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.preRoll = [];
+  }
+}
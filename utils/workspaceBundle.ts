@@ -0,0 +1,326 @@
+import { AdminConfig, AppTheme, CustomThemeConfig, MemoryLayer, PromptConfig, VoiceProfile } from '../types';
+import { diffAdminConfigs, formatAuditValue } from '../services/AdminAuditLog';
+import { downloadBlob } from './download';
+
+export type WorkspaceSection = 'profiles' | 'promptConfig' | 'theme' | 'memory' | 'adminConfig';
+
+export const WORKSPACE_SECTIONS: { id: WorkspaceSection; label: string }[] = [
+  { id: 'profiles', label: 'Voice Profiles' },
+  { id: 'promptConfig', label: 'Prompt Modules & Instructions' },
+  { id: 'theme', label: 'Theme & Colours' },
+  { id: 'memory', label: 'Memory' },
+  { id: 'adminConfig', label: 'Admin Config' },
+];
+
+export interface WorkspaceSnapshot {
+  profiles: VoiceProfile[];
+  promptConfig: PromptConfig;
+  theme: { theme: AppTheme; customColors: CustomThemeConfig };
+  memory: MemoryLayer;
+  adminConfig: AdminConfig;
+}
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  sections: Partial<WorkspaceSnapshot>; // Exports may carry only some sections
+}
+
+export interface WorkspaceSectionPreview {
+  section: WorkspaceSection;
+  label: string;
+  changes: string[]; // Empty = bundle matches what is loaded now
+}
+
+/** Import failed validation; `issues` lists every problem found, as `path: message`. */
+export class WorkspaceBundleError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'WorkspaceBundleError';
+  }
+}
+
+const BUNDLE_FORMAT_ID = 'nexus-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+/**
+ * Migration hook: MIGRATIONS[n] upgrades a raw version-n bundle to version n+1. When a section's
+ * shape changes incompatibly, bump WORKSPACE_BUNDLE_VERSION and add the step here; additive
+ * fields only need a default in the field specs below, so older bundles simply pick it up.
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const migrateWorkspaceBundle = (raw: Record<string, unknown>): Record<string, unknown> => {
+  let bundle = raw;
+  while (typeof bundle.version === 'number' && bundle.version < WORKSPACE_BUNDLE_VERSION) {
+    const version = bundle.version;
+    const step = MIGRATIONS[version];
+    if (!step) throw new WorkspaceBundleError(`No migration from workspace bundle version ${version}`);
+    bundle = { ...step(bundle), version: version + 1 };
+  }
+  return bundle;
+};
+
+// --- Schema ---
+
+type FieldCheck = (value: unknown) => string | null; // Problem description, or null when valid
+
+interface FieldSpec {
+  check: FieldCheck;
+  fallback?: unknown; // Fields added after v1 shipped get a default instead of failing old bundles
+}
+
+const isString: FieldCheck = v => typeof v === 'string' ? null : 'expected a string';
+const isBoolean: FieldCheck = v => typeof v === 'boolean' ? null : 'expected true/false';
+const inRange = (min: number, max: number): FieldCheck => v =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max ? null : `expected a number from ${min} to ${max}`;
+const oneOf = (values: readonly string[]): FieldCheck => v =>
+  typeof v === 'string' && values.includes(v) ? null : `expected one of ${values.join(', ')}`;
+const isStringList: FieldCheck = v => Array.isArray(v) && v.every(i => typeof i === 'string') ? null : 'expected a list of strings';
+const isColor: FieldCheck = v => typeof v === 'string' && /^#[0-9a-f]{3,8}$/i.test(v) ? null : 'expected a hex colour';
+
+const VOICE_NAMES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr', 'Orus', 'Aoede'] as const;
+const THEMES = ['nexus', 'obsidian', 'aether', 'vertex', 'crimson', 'midnight', 'cyber', 'aurora', 'solaris', 'royale', 'terminal', 'custom'] as const;
+
+const PROFILE_SPEC: Record<keyof VoiceProfile, FieldSpec> = {
+  id: { check: isString },
+  name: { check: isString },
+  voiceName: { check: oneOf(VOICE_NAMES) },
+  pace: { check: inRange(0.5, 2) },
+  warmth: { check: inRange(0, 10) },
+  energy: { check: inRange(0, 10) },
+  brevity: { check: inRange(0, 10) },
+  formality: { check: inRange(0, 10) },
+  firmness: { check: inRange(0, 10) },
+  challengeLevel: { check: inRange(0, 10) },
+  emotionalDrift: { check: isBoolean },
+  pauseDensity: { check: inRange(0, 10) },
+  microHesitation: { check: oneOf(['off', 'low', 'natural']), fallback: 'low' },
+  selfCorrection: { check: isBoolean, fallback: false },
+  sentenceCompletionVariability: { check: isBoolean, fallback: false },
+  thoughtDelay: { check: oneOf(['off', 'short', 'variable']), fallback: 'off' },
+  midResponseAdaptation: { check: isBoolean, fallback: false },
+  breathPlacement: { check: oneOf(['off', 'subtle']), fallback: 'off' },
+  prosodicDrift: { check: isBoolean, fallback: false },
+  emphasisDecay: { check: isBoolean, fallback: false },
+  naturalFillers: { check: oneOf(['off', 'rare', 'contextual']), fallback: 'off' },
+  laughter: { check: oneOf(['off', 'rare']), fallback: 'off' },
+  falseStartAllowance: { check: isBoolean, fallback: false },
+  captureMode: { check: oneOf(['continuous', 'push-to-talk', 'toggle']), fallback: 'continuous' },
+  recordSessions: { check: isBoolean, fallback: false },
+};
+
+const ADMIN_SPEC: Record<keyof AdminConfig, FieldSpec> = {
+  godMode: { check: isBoolean },
+  forceMonetization: { check: isBoolean, fallback: false },
+  debugLatency: { check: isBoolean, fallback: false },
+  safetyFilters: { check: oneOf(['strict', 'relaxed', 'off']) },
+  temperature: { check: inRange(0, 2) },
+  maintenanceMode: { check: isBoolean, fallback: false },
+  semanticRetrieval: { check: isBoolean, fallback: false },
+  systemBroadcast: { check: v => v === undefined ? null : isString(v), fallback: undefined },
+};
+
+const COLORS_SPEC: Record<keyof CustomThemeConfig, FieldSpec> = {
+  base: { check: isColor },
+  surface: { check: isColor },
+  accent: { check: isColor },
+  text: { check: isColor },
+  muted: { check: isColor },
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Validates against a spec, filling defaults for missing fields; unknown fields are dropped
+const readObject = <T>(raw: unknown, spec: Record<string, FieldSpec>, path: string, issues: string[]): T => {
+  const out: Record<string, unknown> = {};
+  if (!isRecord(raw)) {
+    issues.push(`${path}: expected an object`);
+    return out as T;
+  }
+  Object.entries(spec).forEach(([key, field]) => {
+    if (raw[key] === undefined && 'fallback' in field) {
+      if (field.fallback !== undefined) out[key] = field.fallback;
+      return;
+    }
+    const problem = field.check(raw[key]);
+    if (problem) issues.push(`${path}.${key}: ${problem}`);
+    else out[key] = raw[key];
+  });
+  return out as T;
+};
+
+const readSections = (raw: Record<string, unknown>, issues: string[]): Partial<WorkspaceSnapshot> => {
+  const sections: Partial<WorkspaceSnapshot> = {};
+
+  if (raw.profiles !== undefined) {
+    if (!Array.isArray(raw.profiles)) issues.push('profiles: expected a list');
+    else {
+      sections.profiles = raw.profiles.map((p, i) => readObject<VoiceProfile>(p, PROFILE_SPEC, `profiles[${i}]`, issues));
+      const ids = sections.profiles.map(p => p.id);
+      if (new Set(ids).size !== ids.length) issues.push('profiles: duplicate profile ids');
+    }
+  }
+
+  if (raw.promptConfig !== undefined) {
+    const prompt = raw.promptConfig;
+    if (!isRecord(prompt) || !isRecord(prompt.modules) || !Object.values(prompt.modules).every(v => typeof v === 'boolean')) {
+      issues.push('promptConfig.modules: expected module → true/false');
+    } else if (typeof prompt.customInstruction !== 'string') {
+      issues.push('promptConfig.customInstruction: expected a string');
+    } else {
+      sections.promptConfig = { modules: prompt.modules as Record<string, boolean>, customInstruction: prompt.customInstruction };
+    }
+  }
+
+  if (raw.theme !== undefined) {
+    const theme = raw.theme;
+    if (!isRecord(theme)) issues.push('theme: expected an object');
+    else {
+      const problem = oneOf(THEMES)(theme.theme);
+      if (problem) issues.push(`theme.theme: ${problem}`);
+      const customColors = readObject<CustomThemeConfig>(theme.customColors, COLORS_SPEC, 'theme.customColors', issues);
+      sections.theme = { theme: theme.theme as AppTheme, customColors };
+    }
+  }
+
+  if (raw.memory !== undefined) {
+    const memory = raw.memory;
+    if (!isRecord(memory)) issues.push('memory: expected an object');
+    else {
+      (['session', 'workspace'] as const).forEach(key => {
+        const problem = isStringList(memory[key]);
+        if (problem) issues.push(`memory.${key}: ${problem}`);
+      });
+      const user = readObject<MemoryLayer['user']>(memory.user, {
+        name: { check: isString }, pacePreference: { check: isString }, tonePreference: { check: isString },
+      }, 'memory.user', issues);
+      sections.memory = { session: memory.session as string[], workspace: memory.workspace as string[], user };
+    }
+  }
+
+  if (raw.adminConfig !== undefined) {
+    sections.adminConfig = readObject<AdminConfig>(raw.adminConfig, ADMIN_SPEC, 'adminConfig', issues);
+  }
+
+  return sections;
+};
+
+// --- Export ---
+
+export const createWorkspaceBundle = (
+  snapshot: WorkspaceSnapshot,
+  sections: WorkspaceSection[] = WORKSPACE_SECTIONS.map(s => s.id)
+): WorkspaceBundle => ({
+  format: BUNDLE_FORMAT_ID,
+  version: WORKSPACE_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  sections: sections.reduce((acc, id) => ({ ...acc, [id]: snapshot[id] }), {} as Partial<WorkspaceSnapshot>),
+});
+
+export const downloadWorkspaceBundle = (bundle: WorkspaceBundle) => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json;charset=utf-8' });
+  downloadBlob(blob, `nexus-workspace-${bundle.exportedAt.slice(0, 10)}.json`);
+};
+
+// --- Import ---
+
+/** Parses, migrates and validates a bundle. Throws WorkspaceBundleError listing every problem. */
+export const parseWorkspaceBundle = (text: string): WorkspaceBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new WorkspaceBundleError('Workspace file is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT_ID) throw new WorkspaceBundleError('Not a workspace bundle (missing format marker)');
+  if (typeof raw.version !== 'number' || raw.version < 1) throw new WorkspaceBundleError('Workspace bundle has no valid version');
+  if (raw.version > WORKSPACE_BUNDLE_VERSION) {
+    throw new WorkspaceBundleError(`Workspace bundle version ${raw.version} is newer than this app supports (${WORKSPACE_BUNDLE_VERSION})`);
+  }
+
+  const migrated = migrateWorkspaceBundle(raw);
+  if (!isRecord(migrated.sections)) throw new WorkspaceBundleError('Workspace bundle has no sections');
+
+  const issues: string[] = [];
+  const sections = readSections(migrated.sections, issues);
+  if (issues.length > 0) throw new WorkspaceBundleError(`Workspace bundle failed validation (${issues.length} issue${issues.length === 1 ? '' : 's'})`, issues);
+  if (Object.keys(sections).length === 0) throw new WorkspaceBundleError('Workspace bundle is empty');
+
+  return { format: BUNDLE_FORMAT_ID, version: WORKSPACE_BUNDLE_VERSION, exportedAt: String(migrated.exportedAt ?? ''), sections };
+};
+
+const countChange = (count: number, noun: string, verb: string) => count > 0 ? [`${count} ${noun}${count === 1 ? '' : 's'} ${verb}`] : [];
+
+/** What applying each section in the bundle would change, for the confirmation step. */
+export const previewWorkspaceImport = (current: WorkspaceSnapshot, bundle: WorkspaceBundle): WorkspaceSectionPreview[] =>
+  WORKSPACE_SECTIONS.filter(({ id }) => bundle.sections[id] !== undefined).map(({ id, label }) => {
+    const changes: string[] = [];
+    const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+    if (id === 'profiles') {
+      bundle.sections.profiles!.forEach(incoming => {
+        const existing = current.profiles.find(p => p.id === incoming.id);
+        if (!existing) changes.push(`Add "${incoming.name}"`);
+        else if (!same(existing, incoming)) changes.push(`Update "${existing.name}"`);
+      });
+    } else if (id === 'promptConfig') {
+      const incoming = bundle.sections.promptConfig!;
+      Object.entries(incoming.modules).forEach(([key, enabled]) => {
+        if (current.promptConfig.modules[key] !== enabled) changes.push(`${enabled ? 'Enable' : 'Disable'} module "${key}"`);
+      });
+      if (incoming.customInstruction !== current.promptConfig.customInstruction) changes.push('Replace custom instructions');
+    } else if (id === 'theme') {
+      const incoming = bundle.sections.theme!;
+      if (incoming.theme !== current.theme.theme) changes.push(`Theme: ${current.theme.theme} → ${incoming.theme}`);
+      (Object.keys(incoming.customColors) as (keyof CustomThemeConfig)[]).forEach(key => {
+        if (incoming.customColors[key] !== current.theme.customColors[key]) changes.push(`Custom ${key}: ${current.theme.customColors[key]} → ${incoming.customColors[key]}`);
+      });
+    } else if (id === 'memory') {
+      const incoming = bundle.sections.memory!;
+      changes.push(...countChange(incoming.session.filter(f => !current.memory.session.includes(f)).length, 'session fact', 'added'));
+      changes.push(...countChange(incoming.workspace.filter(f => !current.memory.workspace.includes(f)).length, 'workspace fact', 'added'));
+      (Object.keys(incoming.user) as (keyof MemoryLayer['user'])[]).forEach(key => {
+        if (incoming.user[key] !== current.memory.user[key]) changes.push(`User ${key}: "${current.memory.user[key]}" → "${incoming.user[key]}"`);
+      });
+    } else if (id === 'adminConfig') {
+      diffAdminConfigs(current.adminConfig, bundle.sections.adminConfig!).forEach(c =>
+        changes.push(`${c.key}: ${formatAuditValue(c.from)} → ${formatAuditValue(c.to)}`));
+    }
+
+    return { section: id, label, changes };
+  });
+
+/**
+ * Applies the chosen sections. Profiles merge by id and memory facts are unioned, so importing
+ * never deletes local data; the remaining sections replace what is loaded.
+ */
+export const applyWorkspaceBundle = (
+  current: WorkspaceSnapshot,
+  bundle: WorkspaceBundle,
+  sections: WorkspaceSection[]
+): WorkspaceSnapshot => {
+  const next = { ...current };
+  const { profiles, promptConfig, theme, memory, adminConfig } = bundle.sections;
+
+  if (sections.includes('profiles') && profiles) {
+    next.profiles = [
+      ...current.profiles.map(p => profiles.find(i => i.id === p.id) ?? p),
+      ...profiles.filter(p => !current.profiles.some(c => c.id === p.id)),
+    ];
+  }
+  if (sections.includes('promptConfig') && promptConfig) {
+    next.promptConfig = { modules: { ...current.promptConfig.modules, ...promptConfig.modules }, customInstruction: promptConfig.customInstruction };
+  }
+  if (sections.includes('theme') && theme) next.theme = theme;
+  if (sections.includes('memory') && memory) {
+    next.memory = {
+      session: Array.from(new Set([...current.memory.session, ...memory.session])),
+      workspace: Array.from(new Set([...current.memory.workspace, ...memory.workspace])),
+      user: memory.user,
+    };
+  }
+  if (sections.includes('adminConfig') && adminConfig) next.adminConfig = adminConfig;
+  return next;
+};
@@ -0,0 +1,114 @@
+// Minimal ZIP reader for DOCX/EPUB containers: central directory + stored/deflated entries.
+// ZIP64 and encrypted archives are rejected; office documents and e-books never need either.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // Record plus the longest possible archive comment
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+  encrypted: boolean;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/** Decompresses zlib ('deflate') or raw DEFLATE data with the browser's DecompressionStream. */
+export const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate'): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch (e) {
+    // Producers often leave junk after the compressed stream; keep what decoded
+    if (chunks.length === 0) throw e;
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out;
+};
+
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+  private view: DataView;
+  private bytes: Uint8Array;
+
+  constructor(data: ArrayBuffer) {
+    this.bytes = new Uint8Array(data);
+    this.view = new DataView(data);
+    this.readCentralDirectory();
+  }
+
+  get names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async read(name: string): Promise<Uint8Array | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.encrypted) throw new ZipError(`${name} is encrypted`);
+    if (this.view.getUint32(entry.localOffset, true) !== LOCAL_SIGNATURE) throw new ZipError(`Corrupt entry ${name}`);
+
+    const nameLength = this.view.getUint16(entry.localOffset + 26, true);
+    const extraLength = this.view.getUint16(entry.localOffset + 28, true);
+    const start = entry.localOffset + 30 + nameLength + extraLength;
+    const raw = this.bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) return inflate(raw, 'deflate-raw');
+    throw new ZipError(`Unsupported compression method ${entry.method} for ${name}`);
+  }
+
+  async readText(name: string): Promise<string | null> {
+    const data = await this.read(name);
+    return data ? new TextDecoder('utf-8').decode(data) : null;
+  }
+
+  private readCentralDirectory() {
+    const length = this.bytes.length;
+    let eocd = -1;
+    for (let i = length - 22; i >= Math.max(0, length - MAX_EOCD_SEARCH); i--) {
+      if (this.view.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) throw new ZipError('Not a ZIP archive');
+
+    const count = this.view.getUint16(eocd + 10, true);
+    let offset = this.view.getUint32(eocd + 16, true);
+    if (count === 0xffff || offset === 0xffffffff) throw new ZipError('ZIP64 archives are not supported');
+
+    const decoder = new TextDecoder('utf-8');
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > length || this.view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new ZipError('Corrupt ZIP directory');
+      const flags = this.view.getUint16(offset + 8, true);
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+      this.entries.set(name, {
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localOffset: this.view.getUint32(offset + 42, true),
+        encrypted: (flags & 1) === 1,
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -18,6 +19,14 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        alias: [
+          // pdf.js's browser build needs DOMMatrix & co.; its legacy build polyfills them under Node
+          { find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' },
+          { find: /^pdfjs-dist\/build\//, replacement: 'pdfjs-dist/legacy/build/' },
+        ],
       }
     };
 });